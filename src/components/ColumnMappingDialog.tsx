@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Columns, Check, X } from 'lucide-react';
+import { ColumnMapping, ColumnMappingRequest, ColumnRole } from '../types';
+import { COLUMN_ROLE_LABELS, isCompleteColumnMapping, normalizeColumnMapping } from '../utils/columnMapping';
+
+interface ColumnMappingDialogProps {
+  fileName: string;
+  request: ColumnMappingRequest;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+// Sarlavhalar tanilmaganda ustunlar vazifasini qo'lda belgilash
+const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({ fileName, request, onConfirm, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(request.mapping);
+  const normalized = normalizeColumnMapping(mapping);
+  const complete = isCompleteColumnMapping(normalized);
+
+  return (
+    <div className="mb-6 bg-[#3b3950] rounded-lg p-4">
+      <h4 className="text-lg font-medium text-white mb-1 flex items-center">
+        <Columns size={20} className="text-blue-400 mr-2" />
+        Ustunlarni moslash
+      </h4>
+      <p className="text-sm text-gray-300 mb-3">
+        "{fileName}" faylidagi ustunlar avtomatik aniqlanmadi. Har bir ustun vazifasini tanlang - moslash shu tuzilmadagi
+        keyingi fayllar uchun eslab qolinadi.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 text-left">
+              <th className="py-1 pr-3">Sarlavha</th>
+              <th className="py-1 pr-3">Birinchi qator</th>
+              <th className="py-1">Vazifasi</th>
+            </tr>
+          </thead>
+          <tbody>
+            {request.headers.map((header, index) => (
+              <tr key={index} className="border-t border-[#2d2b3d]">
+                <td className="py-2 pr-3 text-white">{header || <span className="text-gray-500 italic">(bo'sh)</span>}</td>
+                <td className="py-2 pr-3 text-gray-400 max-w-xs truncate">{request.sampleRow[index] || ''}</td>
+                <td className="py-2">
+                  <select
+                    value={mapping[index] || 'ignore'}
+                    onChange={(e) =>
+                      setMapping(request.headers.map((_, i) => (i === index ? (e.target.value as ColumnRole) : mapping[i] || 'ignore')))
+                    }
+                    className={`bg-[#2d2b3d] text-white p-1 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 ${
+                      normalized[index] !== (mapping[index] || 'ignore') ? 'ring-1 ring-yellow-500' : ''
+                    }`}
+                  >
+                    {(Object.keys(COLUMN_ROLE_LABELS) as ColumnRole[]).map((role) => (
+                      <option key={role} value={role}>
+                        {COLUMN_ROLE_LABELS[role]}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {!complete && (
+        <p className="mt-3 text-sm text-yellow-200">
+          Kamida bitta "{COLUMN_ROLE_LABELS.question}", "{COLUMN_ROLE_LABELS.correctAnswer}" va "
+          {COLUMN_ROLE_LABELS.option}" ustuni tanlanishi kerak
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        <button
+          onClick={() => onConfirm(normalized)}
+          disabled={!complete}
+          className="flex items-center bg-purple-600 hover:bg-purple-700 text-white py-1 px-3 rounded-md text-sm transition-colors duration-200 disabled:opacity-50"
+        >
+          <Check size={16} className="mr-1" />
+          Saqlash va yuklash
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex items-center py-1 px-3 rounded-md text-sm text-gray-300 hover:text-white"
+        >
+          <X size={16} className="mr-1" />
+          Bekor qilish
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingDialog;
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, GitMerge, Check } from 'lucide-react';
+import { DuplicateCluster, Question } from '../types';
+import { MIN_DUPLICATE_THRESHOLD } from '../utils/duplicateDetection';
+import { formatQuestionSource, getQuestionKey } from '../utils/questionSource';
+
+interface DuplicateReviewProps {
+  clusters: DuplicateCluster[];
+  isSearching: boolean; // klasterlar Web Worker'da qayta hisoblanmoqda
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  onMerge: (kept: Question, others: Question[]) => void;
+}
+
+const PAGE_SIZE = 20;
+const THRESHOLD_DEBOUNCE_MS = 400;
+
+const formatPercent = (value: number): string => `${Math.round(value * 100)}%`;
+
+// O'xshash savollar klasterlari: birlashtirish (bittasini qoldirish) yoki hammasini bankda qoldirish.
+// Qoldirilgan klasterdan ham sessiyaga faqat bitta savol tushadi.
+const DuplicateReview: React.FC<DuplicateReviewProps> = ({ clusters, isSearching, threshold, onThresholdChange, onMerge }) => {
+  const [draftThreshold, setDraftThreshold] = useState(threshold);
+  const [keptIds, setKeptIds] = useState<Set<string>>(new Set());
+  const [selectedKeys, setSelectedKeys] = useState<Record<string, string>>({});
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const pending = clusters.filter((cluster) => !keptIds.has(cluster.id));
+
+  // Katta bankda klasterlash sekin - chegara slayder to'xtagandan keyin qo'llanadi
+  useEffect(() => {
+    if (draftThreshold === threshold) return;
+    const timer = setTimeout(() => onThresholdChange(draftThreshold), THRESHOLD_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [draftThreshold, threshold, onThresholdChange]);
+
+  const handleMerge = (cluster: DuplicateCluster) => {
+    const keptKey = selectedKeys[cluster.id] || getQuestionKey(cluster.questions[0]);
+    const kept = cluster.questions.find((q) => getQuestionKey(q) === keptKey) || cluster.questions[0];
+    onMerge(kept, cluster.questions.filter((q) => q !== kept));
+  };
+
+  return (
+    <div className="mb-6 bg-[#3b3950] rounded-lg p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h4 className="text-lg font-medium text-white flex items-center">
+          <Copy size={20} className="text-blue-400 mr-2" />
+          Takroriy savollar
+        </h4>
+        <span className="text-sm text-gray-300 flex items-center">
+          {isSearching && (
+            <span className="animate-spin rounded-full h-3 w-3 border-t-2 border-b-2 border-purple-400 mr-2"></span>
+          )}
+          {clusters.length} ta klaster
+          {clusters.length > pending.length && `, ${clusters.length - pending.length} tasi qoldirilgan`}
+        </span>
+      </div>
+
+      <label htmlFor="duplicateThreshold" className="flex flex-wrap items-center gap-2 text-sm text-gray-300 mb-1">
+        O'xshashlik chegarasi:
+        <input
+          id="duplicateThreshold"
+          type="range"
+          min={MIN_DUPLICATE_THRESHOLD}
+          max={1}
+          step={0.01}
+          value={draftThreshold}
+          onChange={(e) => setDraftThreshold(parseFloat(e.target.value))}
+          className="accent-purple-600"
+        />
+        <span className="text-white w-10">{formatPercent(draftThreshold)}</span>
+      </label>
+      <p className="text-xs text-gray-400 mb-3">
+        Savol va variantlar matni solishtiriladi (apostrof, tinish belgilari va variantlar tartibi hisobga olinmaydi).
+        Bitta klasterdagi savollardan sessiyaga faqat bittasi tushadi.
+      </p>
+
+      {clusters.length === 0 && !isSearching && <p className="text-sm text-gray-400 italic">Takroriy savollar topilmadi</p>}
+
+      <div className="space-y-2">
+        {pending.slice(0, visibleCount).map((cluster) => {
+          const selectedKey = selectedKeys[cluster.id] || getQuestionKey(cluster.questions[0]);
+          return (
+            <div key={cluster.id} className="bg-[#2d2b3d] rounded-md p-3">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <span className="text-sm text-gray-300">
+                  {cluster.questions.length} ta savol, o'xshashlik {formatPercent(cluster.similarity)}
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleMerge(cluster)}
+                    className="flex items-center bg-purple-600 hover:bg-purple-700 text-white py-1 px-2 rounded-md text-xs transition-colors duration-200"
+                    title="Tanlangan savol qoladi, qolganlari bankdan olib tashlanadi"
+                  >
+                    <GitMerge size={14} className="mr-1" />
+                    Birlashtirish
+                  </button>
+                  <button
+                    onClick={() => setKeptIds((prev) => new Set(prev).add(cluster.id))}
+                    className="flex items-center bg-[#3b3950] hover:bg-[#4d4b63] text-white py-1 px-2 rounded-md text-xs transition-colors duration-200"
+                    title="Savollar bankda qoladi, sessiyaga esa faqat bittasi tushadi"
+                  >
+                    <Check size={14} className="mr-1" />
+                    Hammasini qoldirish
+                  </button>
+                </div>
+              </div>
+
+              <ul className="space-y-1">
+                {cluster.questions.map((question) => {
+                  const key = getQuestionKey(question);
+                  return (
+                    <li key={key}>
+                      <label className="flex items-start text-sm cursor-pointer">
+                        <input
+                          type="radio"
+                          name={`duplicate-${cluster.id}`}
+                          checked={selectedKey === key}
+                          onChange={() => setSelectedKeys((prev) => ({ ...prev, [cluster.id]: key }))}
+                          className="mt-1 mr-2 accent-purple-600"
+                        />
+                        <span>
+                          <span className="text-gray-400">{formatQuestionSource(question)}: </span>
+                          <span className="text-white">{question.question}</span>
+                          <span className="block text-xs text-gray-500">{question.options.join(' · ')}</span>
+                        </span>
+                      </label>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+
+      {pending.length > visibleCount && (
+        <button
+          onClick={() => setVisibleCount((prev) => prev + PAGE_SIZE)}
+          className="mt-3 w-full bg-[#2d2b3d] hover:bg-[#4d4b63] text-gray-300 py-2 rounded-md text-sm transition-colors duration-200"
+        >
+          Yana ko'rsatish ({pending.length - visibleCount} ta klaster qoldi)
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DuplicateReview;
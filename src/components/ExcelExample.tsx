@@ -1,7 +1,13 @@
 import React from 'react';
-import { FileSpreadsheet, HelpCircle } from 'lucide-react';
+import { FileSpreadsheet, HelpCircle, Download } from 'lucide-react';
+import { generateExcelTemplate } from '../utils/excelTemplate';
+import { downloadBlob } from '../utils/download';
 
 const ExcelExample: React.FC = () => {
+  const handleDownloadTemplate = () => {
+    downloadBlob(generateExcelTemplate(), 'savollar_shablon.xlsx');
+  };
+
   return (
     <div className="bg-[#2d2b3d] p-6 rounded-lg shadow-lg mb-8">
       <div className="flex items-center mb-4">
@@ -13,6 +19,13 @@ const ExcelExample: React.FC = () => {
             Excel faylida quyidagi ustunlar bo'lishi kerak
           </div>
         </div>
+        <button
+          onClick={handleDownloadTemplate}
+          className="ml-auto flex items-center bg-green-600 hover:bg-green-700 text-white py-1 px-3 rounded-md text-sm transition-colors duration-200"
+        >
+          <Download size={16} className="mr-1" />
+          Shablonni yuklab olish
+        </button>
       </div>
       
       <div className="overflow-x-auto">
@@ -20,7 +33,7 @@ const ExcelExample: React.FC = () => {
           <thead>
             <tr className="border-b border-gray-600">
               <th className="py-3 px-4 text-left">Savol</th>
-              <th className="py-3 px-4 text-left">Tog'ri javob</th>
+              <th className="py-3 px-4 text-left">To'g'ri javob</th>
               <th className="py-3 px-4 text-left">Muqobil javob</th>
               <th className="py-3 px-4 text-left">Muqobil javob</th>
               <th className="py-3 px-4 text-left">Muqobil javob</th>
@@ -47,6 +60,10 @@ const ExcelExample: React.FC = () => {
       
       <div className="mt-4 text-gray-300 text-sm">
         <p>Izoh: Excel faylingizda kamida 1-ta savol, 1-ta to'g'ri javob va 1-ta noto'g'ri javob bo'lishi kerak.</p>
+        <p className="mt-1">
+          Ixtiyoriy ustunlar: Izoh, Rasm, Mavzu, Qiyinlik, Teglar. Bir nechta to'g'ri javob ";;" bilan ajratiladi.
+          Barcha qoidalar shablonning "Qoidalar" varag'ida.
+        </p>
       </div>
     </div>
   );
@@ -1,9 +1,78 @@
-import React, { useState, useRef, forwardRef, useImperativeHandle } from 'react';
-import { Upload, FileText, Check, AlertCircle, Send, Clock, Download } from 'lucide-react';
-import { parseExcelFile } from '../utils/excelParser';
-import { generateExcelReport } from '../utils/excelParser';
-import { Question, TelegramConfig, TestResult, QuizSettings } from '../types';
-import { sendQuizToTelegram, sendMultiUserQuizToTelegram, sendGroupQuizToTelegram } from '../utils/telegramService';
+import React, { useState, useRef, useEffect, useMemo, forwardRef, useImperativeHandle } from 'react';
+import { Upload, FileText, Check, AlertCircle, Send, Clock, Download, Image as ImageIcon, X, Pause, Play, Square } from 'lucide-react';
+import { generateExcelReport, generateCorrectedWorkbook, exportQuestionsToExcel } from '../utils/excelParser';
+import {
+  parseQuestionFile,
+  isSupportedQuestionFile,
+  getMaxQuestionFileSize,
+  SUPPORTED_QUESTION_FILE_EXTENSIONS,
+  MAX_QUESTION_FILE_SIZE,
+} from '../utils/questionImport';
+import { MAX_WORKER_EXCEL_FILE_SIZE } from '../utils/excelWorker';
+import { QUESTION_EXPORT_FORMATS, QuestionExportFormat } from '../utils/questionExport';
+import { downloadBlob, stripFileExtension } from '../utils/download';
+import { validateQuestionDraft, getQuestionWarnings } from '../utils/questionValidation';
+import { applyPollStrategies, getPollIssues, questionNumberPrefixLength } from '../utils/telegramLimits';
+import { isMultiAnswerQuestion, MULTI_ANSWER_SCORING_LABELS } from '../utils/correctAnswers';
+import {
+  attachQuestionImages,
+  buildImageLibrary,
+  collectQuestionImages,
+  getMissingImageQuestions,
+  isImageFile,
+  mergeImageLibraries,
+  toImageLibrary,
+  ImageLibrary,
+} from '../utils/questionImages';
+import { readDroppedFiles } from '../utils/droppedFiles';
+import { getBlueprintQuestionCount, getBlueprintShortages } from '../utils/sessionBlueprint';
+import { QUESTION_SCRIPT_LABELS, transliterateQuestions } from '../utils/transliteration';
+import { applyDuplicateGroups, mergeDuplicateQuestions, DEFAULT_DUPLICATE_THRESHOLD } from '../utils/duplicateDetection';
+import { findDuplicateClustersInWorker } from '../utils/duplicateWorker';
+import { formatQuestionSource, getQuestionKey } from '../utils/questionSource';
+import {
+  MAX_SESSION_QUESTIONS,
+  RANDOM_SELECTION,
+  getSessionCountError,
+  isFixedCountSelection,
+  selectSessionQuestions,
+} from '../utils/questionSelection';
+import ValidationReport from './ValidationReport';
+import TelegramPreflight from './TelegramPreflight';
+import SessionBlueprintBuilder from './SessionBlueprintBuilder';
+import QuestionLibrary from './QuestionLibrary';
+import QuestionEditor from './QuestionEditor';
+import ColumnMappingDialog from './ColumnMappingDialog';
+import DuplicateReview from './DuplicateReview';
+import QuestionPreview from './QuestionPreview';
+import SelectionStrategyPicker from './SelectionStrategyPicker';
+import InterruptedSessions from './InterruptedSessions';
+import LiveQuizPanel from './LiveQuizPanel';
+import { loadSavedColumnMappings, saveColumnMapping } from '../utils/columnMapping';
+import { QuestionBank } from '../utils/questionLibrary';
+import {
+  Question,
+  QuestionDraft,
+  TelegramConfig,
+  TestResult,
+  QuizSettings,
+  ValidationIssue,
+  PollIssueKind,
+  PollIssueStrategy,
+  PollStrategy,
+  MultiAnswerScoring,
+  SessionBlueprint,
+  ColumnMapping,
+  ColumnMappingRequest,
+  QuestionScript,
+  ParseProgress,
+  QuestionSelection,
+  DuplicateCluster,
+} from '../types';
+import { runQuiz, resumeQuiz, finalizeQuiz, QuizRunResult, QuizRunnerHooks, QUIZ_TARGET_LABELS } from '../utils/quizRunner';
+import { LiveQuizState, applyProgressEvent } from '../utils/quizProgress';
+import { QuizControl } from '../utils/quizControl';
+import { QuizCheckpoint, listQuizCheckpoints, deleteQuizCheckpoint } from '../utils/quizCheckpoint';
 import { Chart as ChartJS, ArcElement, Tooltip, Legend } from 'chart.js';
 import { Pie } from 'react-chartjs-2';
 
@@ -36,21 +105,122 @@ interface UserResult extends TestResult {
   rank?: number;
 }
 
+const formatMegabytes = (bytes: number): string => `${Math.round(bytes / 1024 / 1024)}MB`;
+
 // Wrap component with forwardRef
 const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({ config }, ref) => {
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [validationIssues, setValidationIssues] = useState<ValidationIssue[]>([]);
+  const [questionDrafts, setQuestionDrafts] = useState<QuestionDraft[]>([]);
   const [fileName, setFileName] = useState<string>('');
   const [isUploading, setIsUploading] = useState<boolean>(false);
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
   const [error, setError] = useState<string>('');
   const [success, setSuccess] = useState<string>('');
   const [quizSettings, setQuizSettings] = useState<QuizSettings>({
     questionCount: 5,
     intervalSeconds: 30,
+    showRowNumber: true,
+    multiAnswerScoring: 'strict',
+    script: 'original',
+    selection: RANDOM_SELECTION,
   });
   const [isSending, setIsSending] = useState<boolean>(false);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+  const [isRunControllable, setIsRunControllable] = useState<boolean>(false);
+  const quizControlRef = useRef<QuizControl | null>(null);
+  const [interruptedSessions, setInterruptedSessions] = useState<QuizCheckpoint[]>([]);
+  const [liveProgress, setLiveProgress] = useState<LiveQuizState | null>(null);
   const [testResult, setTestResult] = useState<TestResult | null>(null);
   const [quizRankings, setQuizRankings] = useState<UserResult[]>([]);
   const [isDragging, setIsDragging] = useState<boolean>(false);
+  // Telegram cheklovlaridan oshgan savollar uchun tanlangan yechimlar (getQuestionKey bo'yicha)
+  const [pollStrategies, setPollStrategies] = useState<Record<string, PollStrategy>>({});
+  const [preflightConfirmed, setPreflightConfirmed] = useState<boolean>(false);
+  // Savol rasmlari: fayl ichidagilari va alohida tanlangan papkadagilari
+  const [embeddedImages, setEmbeddedImages] = useState<ImageLibrary>({});
+  const [folderImages, setFolderImages] = useState<ImageLibrary>({});
+  // Mavzu/qiyinlik bo'yicha sessiya tarkibi; null - oddiy tasodifiy tanlash
+  const [blueprint, setBlueprint] = useState<SessionBlueprint | null>(null);
+  // Ko'rib chiqishda qo'lda tanlangan savollar - bo'sh bo'lsa tasodifiy tanlov yoki tarkib ishlatiladi
+  const [pickedKeys, setPickedKeys] = useState<string[]>([]);
+  // Sarlavhalari tanilmagan fayl - ustunlar qo'lda moslangandan keyin qayta o'qiladi
+  const [duplicateThreshold, setDuplicateThreshold] = useState<number>(DEFAULT_DUPLICATE_THRESHOLD);
+  const [foundDuplicateClusters, setFoundDuplicateClusters] = useState<DuplicateCluster[]>([]);
+  const [isFindingDuplicates, setIsFindingDuplicates] = useState(false);
+  const [pendingMapping, setPendingMapping] = useState<{ file: File; request: ColumnMappingRequest } | null>(null);
+
+  const imageLibrary = useMemo(() => mergeImageLibraries(folderImages, embeddedImages), [folderImages, embeddedImages]);
+  // Kutubxonaga rasmlari bilan saqlanadi
+  const libraryQuestions = useMemo(() => attachQuestionImages(questions, imageLibrary), [questions, imageLibrary]);
+  const missingImageQuestions = useMemo(
+    () => getMissingImageQuestions(questions, imageLibrary),
+    [questions, imageLibrary]
+  );
+  const imageQuestionCount = useMemo(() => questions.filter((q) => q.image).length, [questions]);
+
+  // Tanlangan yozuvga o'girilgan savollar: Telegram cheklovlari shu matn bo'yicha tekshiriladi va yuboriladi
+  const scriptQuestions = useMemo(
+    () => transliterateQuestions(questions, quizSettings.script),
+    [questions, quizSettings.script]
+  );
+
+  // Takroriy savollar klasterlari: har bir klasterdan sessiyaga faqat bitta savol tushadi.
+  // Qidiruv Web Worker'da - yangi natija kelguncha olib tashlangan savollar eski klasterlardan chiqariladi
+  const duplicateClusters = useMemo(() => {
+    const keys = new Set(questions.map(getQuestionKey));
+    return foundDuplicateClusters
+      .map((cluster) => ({ ...cluster, questions: cluster.questions.filter((q) => keys.has(getQuestionKey(q))) }))
+      .filter((cluster) => cluster.questions.length > 1);
+  }, [foundDuplicateClusters, questions]);
+  const groupedQuestions = useMemo(
+    () => applyDuplicateGroups(scriptQuestions, duplicateClusters),
+    [scriptQuestions, duplicateClusters]
+  );
+
+  // Birlashtirish yoki o'tkazib yuborishda olib tashlangan savollar tanlovdan ham chiqadi
+  const activePickedKeys = useMemo(() => {
+    const keys = new Set(questions.map(getQuestionKey));
+    return pickedKeys.filter((key) => keys.has(key));
+  }, [questions, pickedKeys]);
+  const selection = useMemo<QuestionSelection>(
+    () => (activePickedKeys.length > 0 ? { mode: 'manual', keys: activePickedKeys } : quizSettings.selection),
+    [activePickedKeys, quizSettings.selection]
+  );
+  // Qo'lda tanlov tarkibdan ustun turadi
+  const activeBlueprint = selection.mode === 'manual' ? null : blueprint;
+
+  // Qo'lda tanlov va qatorlar oralig'ida savollar soni tanlovning o'zidan kelib chiqadi
+  const fixedSelectionCount = useMemo(
+    () =>
+      isFixedCountSelection(selection) ? selectSessionQuestions(groupedQuestions, Infinity, selection).questions.length : 0,
+    [groupedQuestions, selection]
+  );
+
+  // Savollar soni qo'lda tanlangan savollardan, qatorlar oralig'idan yoki tarkibdan olinadi
+  const sessionQuestionCount = isFixedCountSelection(selection)
+    ? fixedSelectionCount
+    : activeBlueprint
+      ? getBlueprintQuestionCount(activeBlueprint)
+      : quizSettings.questionCount;
+  const sessionCountError = getSessionCountError(sessionQuestionCount);
+  const blueprintShortages = useMemo(
+    () => (activeBlueprint ? getBlueprintShortages(groupedQuestions, activeBlueprint) : []),
+    [groupedQuestions, activeBlueprint]
+  );
+
+  const prefixLength = questionNumberPrefixLength(sessionQuestionCount);
+  const hasPollIssues = useMemo(
+    () => scriptQuestions.some((question) => getPollIssues(question, prefixLength).length > 0),
+    [scriptQuestions, prefixLength]
+  );
+
+  const multiAnswerCount = useMemo(() => questions.filter(isMultiAnswerQuestion).length, [questions]);
+
+  // Savollar, yechimlar yoki savollar soni o'zgarsa tekshiruvni qayta tasdiqlash kerak
+  useEffect(() => {
+    setPreflightConfirmed(false);
+  }, [scriptQuestions, pollStrategies, sessionQuestionCount]);
 
   // Expose validation function via ref
   useImperativeHandle(ref, () => ({
@@ -60,23 +230,52 @@ const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({ config }, ref)
   }));
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const parseAbortRef = useRef<AbortController | null>(null);
+  const imageFolderInputRef = useRef<HTMLInputElement>(null);
+
+  // Sahifa yangilanishidan oldin yakunlanmay qolgan testlar
+  useEffect(() => {
+    listQuizCheckpoints()
+      .then(setInterruptedSessions)
+      .catch((err) => console.warn('Saqlangan sessiyalar o\'qilmadi:', err));
+  }, []);
+
+  // Savollar yoki o'xshashlik chegarasi o'zgarganda takroriylar qaytadan qidiriladi, eski qidiruv bekor qilinadi
+  useEffect(() => {
+    if (questions.length < 2) {
+      setFoundDuplicateClusters([]);
+      return;
+    }
+    const abortController = new AbortController();
+    setIsFindingDuplicates(true);
+    findDuplicateClustersInWorker(questions, duplicateThreshold, abortController.signal)
+      .then(setFoundDuplicateClusters)
+      .catch(() => {
+        if (!abortController.signal.aborted) setFoundDuplicateClusters([]);
+      })
+      .finally(() => {
+        if (!abortController.signal.aborted) setIsFindingDuplicates(false);
+      });
+    return () => abortController.abort();
+  }, [questions, duplicateThreshold]);
+
+  // webkitdirectory React atributlari orasida yo'q - papka tanlashni qo'lda yoqamiz
+  useEffect(() => {
+    imageFolderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
 
   const handleFileSelect = () => {
     fileInputRef.current?.click();
   };
 
   const validateFile = (file: File): string | null => {
-    const validTypes = [
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      'application/vnd.ms-excel',
-    ];
-    const maxSize = 10 * 1024 * 1024; // 10MB
-
-    if (!validTypes.includes(file.type)) {
-      return "Faqat .xlsx yoki .xls formatidagi fayllar qabul qilinadi";
+    // Brauzerlar MIME turini har doim ham to'g'ri bermaydi, shuning uchun kengaytmaga qaraymiz
+    if (!isSupportedQuestionFile(file)) {
+      return `Faqat ${SUPPORTED_QUESTION_FILE_EXTENSIONS.join(', ')} formatidagi fayllar qabul qilinadi`;
     }
+    const maxSize = getMaxQuestionFileSize(file);
     if (file.size > maxSize) {
-      return "Fayl hajmi 10MB dan katta bo'lmasligi kerak";
+      return `Fayl hajmi ${formatMegabytes(maxSize)} dan katta bo'lmasligi kerak`;
     }
     return null;
   };
@@ -87,6 +286,8 @@ const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({ config }, ref)
       setError(validationError);
       setFileName('');
       setQuestions([]);
+      setValidationIssues([]);
+      setQuestionDrafts([]);
       return;
     }
 
@@ -94,30 +295,75 @@ const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({ config }, ref)
     setError('');
     setSuccess('');
     setTestResult(null);
+    setPendingMapping(null);
+    const abortController = new AbortController();
+    parseAbortRef.current = abortController;
 
     try {
       setFileName(file.name);
-      const parsedQuestions = await parseExcelFile(file);
+      const {
+        questions: fileQuestions,
+        issues,
+        drafts,
+        images,
+        warnings,
+        columnMappingRequest,
+      } = await parseQuestionFile(file, loadSavedColumnMappings(), {
+        onProgress: setParseProgress,
+        signal: abortController.signal,
+      });
 
-      if (parsedQuestions.length === 0) {
-        throw new Error('Excel faylida savollar topilmadi');
+      if (columnMappingRequest) {
+        setPendingMapping({ file, request: columnMappingRequest });
+        setFileName('');
+        setQuestions([]);
+        setValidationIssues([]);
+        setQuestionDrafts([]);
+        return;
+      }
+      // Kutubxonada banklar birlashtirilganda ham qator raqami qaysi faylga tegishliligi saqlanadi
+      const parsedQuestions = fileQuestions.map((q) => ({ ...q, sourceFile: file.name }));
+
+      setPollStrategies({});
+      setBlueprint(null);
+      setPickedKeys([]);
+      setEmbeddedImages(toImageLibrary(images || {}));
+      setValidationIssues(issues);
+      setQuestionDrafts(drafts);
+
+      if (parsedQuestions.length === 0 && issues.length === 0) {
+        throw new Error('Faylda savollar topilmadi');
       }
 
       setQuestions(parsedQuestions);
-      setSuccess(`${parsedQuestions.length} ta savol muvaffaqiyatli yuklandi`);
+      const errorCount = issues.filter((issue) => issue.severity === 'error').length;
+      const warningText = warnings && warnings.length > 0 ? `. Diqqat: ${warnings.join('; ')}` : '';
+      if (parsedQuestions.length === 0) {
+        setError(`Faylda yaroqli savollar topilmadi: ${errorCount} ta xato. Tekshiruv hisobotida qatorlarni tuzating.`);
+      } else {
+        setSuccess(
+          `${parsedQuestions.length} ta savol muvaffaqiyatli yuklandi` +
+            (errorCount > 0 ? ` (${errorCount} ta qator xato tufayli o'tkazib yuborildi)` : '') +
+            warningText
+        );
+      }
 
-      if (quizSettings.questionCount > parsedQuestions.length) {
+      if (parsedQuestions.length > 0 && quizSettings.questionCount > parsedQuestions.length) {
         setQuizSettings((prev) => ({
           ...prev,
           questionCount: parsedQuestions.length,
         }));
       }
     } catch (err) {
-      setError((err as Error).message || 'Excel faylini yuklashda xatolik yuz berdi');
+      setError((err as Error).message || 'Faylni yuklashda xatolik yuz berdi');
       setFileName('');
       setQuestions([]);
+      setValidationIssues([]);
+      setQuestionDrafts([]);
     } finally {
       setIsUploading(false);
+      setParseProgress(null);
+      parseAbortRef.current = null;
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
@@ -136,12 +382,25 @@ const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({ config }, ref)
     e.stopPropagation();
     setIsDragging(false);
 
-    const file = e.dataTransfer.files?.[0];
+    // Test fayli rasmlar papkasi bilan birga tashlanishi mumkin
+    const files = await readDroppedFiles(e.dataTransfer);
+    const images = buildImageLibrary(files);
+    if (Object.keys(images).length > 0) {
+      setFolderImages((prev) => ({ ...prev, ...images }));
+    }
+
+    const file = files.find((f) => isSupportedQuestionFile(f)) || files.find((f) => !isImageFile(f));
     if (file) {
       await handleFileChange(file);
     }
   };
 
+  const handleImageFolderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const images = buildImageLibrary(Array.from(e.target.files || []));
+    setFolderImages((prev) => ({ ...prev, ...images }));
+    e.target.value = '';
+  };
+
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
@@ -165,79 +424,125 @@ const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({ config }, ref)
       return;
     }
 
+    if (hasPollIssues && !preflightConfirmed) {
+      setError('Avval Telegram cheklovlari tekshiruvidagi yechimlarni tasdiqlang');
+      return;
+    }
+
+    if (blueprintShortages.length > 0) {
+      setError(`Savollar banki tanlangan tarkibga yetmaydi: ${blueprintShortages.join('; ')}`);
+      return;
+    }
+
+    if (sessionCountError) {
+      setError(sessionCountError);
+      return;
+    }
+
+    // Tanlangan yechimlarni qo'llash: o'tkazib yuboriladigan savollar ro'yxatdan chiqariladi
+    const preparedQuestions = attachQuestionImages(applyPollStrategies(groupedQuestions, pollStrategies, prefixLength), imageLibrary);
+    if (preparedQuestions.length === 0) {
+      setError("Telegram cheklovlaridan o'tadigan savollar qolmadi");
+      return;
+    }
+    const questionCount =
+      isFixedCountSelection(selection) || activeBlueprint
+        ? sessionQuestionCount
+        : Math.min(quizSettings.questionCount, preparedQuestions.length);
+    if (questionCount === 0) {
+      setError("Tanlangan usul bo'yicha savollar topilmadi");
+      return;
+    }
+
+    // Qabul qiluvchi turi (shaxsiy chat, foydalanuvchilar ro'yxati, guruh, kanal) getChat orqali aniqlanadi
+    await executeQuizRun((control, hooks) =>
+      runQuiz(preparedQuestions, config, {
+        requestedCount: questionCount,
+        intervalSeconds: quizSettings.intervalSeconds,
+        showRowNumber: quizSettings.showRowNumber,
+        multiAnswerScoring: quizSettings.multiAnswerScoring,
+        blueprint: activeBlueprint || undefined,
+        selection,
+        control,
+      }, hooks)
+    );
+  };
+
+  // Yangi, davom ettirilgan yoki yakunlangan test: natijalar bir xil ko'rsatiladi, Stop/Pauza shu boshqaruv orqali ishlaydi.
+  // Yakunlashda yakuniy xabarlar boshqaruvsiz yuboriladi, shuning uchun Stop/Pauza tugmalari ko'rsatilmaydi
+  const executeQuizRun = async (
+    start: (control: QuizControl, hooks: QuizRunnerHooks) => Promise<QuizRunResult>,
+    controllable: boolean = true
+  ) => {
+    const control = new QuizControl();
+    quizControlRef.current = control;
     setIsSending(true);
+    setIsRunControllable(controllable);
+    setIsPaused(false);
+    setLiveProgress(null);
     setError('');
     setSuccess('');
 
+    // Jonli panel runner hodisalaridan yangilanadi
+    const hooks: QuizRunnerHooks = {
+      onProgress: (event) => setLiveProgress((prev) => applyProgressEvent(prev, event)),
+    };
+
     try {
-      // Check if it's a multi-user scenario (comma-separated user IDs)
-      const userIds = config.userId.includes(',') 
-        ? config.userId.split(',').map((id: string) => id.trim()).filter((id: string) => id)
-        : [config.userId];
-      
-      let result;
-      // Check if it's a channel (starts with @)
-      const isChannel = config.userId.startsWith('@');
-      // Check if it's a group (starts with -)
-      const isGroup = config.userId.startsWith('-');
-      
-      if (isChannel) {
-        // Channel quiz - use group-specific functionality for sequential sending
-        result = await sendGroupQuizToTelegram(
-          questions,
-          config,
-          config.userId,
-          quizSettings.questionCount,
-          quizSettings.intervalSeconds
-        );
-        setQuizRankings([]); // Clear rankings for channel
-      } else if (isGroup) {
-        // Group quiz - use group-specific functionality
-        result = await sendGroupQuizToTelegram(
-          questions,
-          config,
-          config.userId,
-          quizSettings.questionCount,
-          quizSettings.intervalSeconds
-        );
-        setQuizRankings([]); // Clear rankings for group
-      } else if (userIds.length > 1) {
-        // Multi-user quiz
-        const { rankings } = await sendMultiUserQuizToTelegram(
-          questions,
-          config,
-          userIds,
-          quizSettings.questionCount,
-          quizSettings.intervalSeconds
-        );
-        setQuizRankings(rankings);
-        // For compatibility, set a summary result
-        const totalCorrect = rankings.reduce((sum, r: UserResult) => sum + r.correct, 0);
-        const totalIncorrect = rankings.reduce((sum, r: UserResult) => sum + r.incorrect, 0);
-        result = {
-          correct: totalCorrect,
-          incorrect: totalIncorrect,
-          total: rankings[0]?.total || 0,
-          percentage: rankings.length > 0 ? (totalCorrect / (totalCorrect + totalIncorrect)) * 100 : 0
-        };
-      } else {
-        // Single user quiz
-        result = await sendQuizToTelegram(
-          questions,
-          config,
-          quizSettings.questionCount,
-          quizSettings.intervalSeconds
-        );
-        setQuizRankings([]); // Clear rankings for single user
-      }
-      
-      setTestResult(result);
-      setSuccess('Savollar muvaffaqiyatli yuborildi');
+      const run = await start(control, hooks);
+
+      // Reyting faqat bir nechta ishtirokchili testlarda ko'rsatiladi
+      setQuizRankings(run.target === 'userList' || run.target === 'group' ? run.rankings : []);
+      setTestResult(run.result);
+      setSuccess(
+        run.stopped
+          ? `Test to'xtatildi - natijalar faqat yuborilgan savollar bo'yicha (${QUIZ_TARGET_LABELS[run.target]})`
+          : `Savollar muvaffaqiyatli yuborildi (${QUIZ_TARGET_LABELS[run.target]})`
+      );
     } catch (err) {
       setError((err as Error).message || 'Telegram botga yuborishda xatolik yuz berdi');
     } finally {
+      quizControlRef.current = null;
       setIsSending(false);
+      setIsRunControllable(false);
+      setIsPaused(false);
+      setLiveProgress(null);
+      // Xato bilan tugagan test ro'yxatda qoladi - uni keyin davom ettirish mumkin
+      setInterruptedSessions(await listQuizCheckpoints().catch(() => []));
+    }
+  };
+
+  const handleResumeSession = (checkpoint: QuizCheckpoint) =>
+    executeQuizRun((control, hooks) => resumeQuiz(checkpoint, config, control, hooks));
+
+  const handleFinalizeSession = (checkpoint: QuizCheckpoint) =>
+    executeQuizRun(() => finalizeQuiz(checkpoint, config), false);
+
+  const handleDiscardSession = async (checkpoint: QuizCheckpoint) => {
+    if (!window.confirm("Yakunlanmagan test o'chirilsinmi? Yig'ilgan javoblar yo'qoladi.")) return;
+    try {
+      await deleteQuizCheckpoint(checkpoint.id);
+      setInterruptedSessions((prev) => prev.filter((session) => session.id !== checkpoint.id));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  // Pauza: joriy savol tugagach keyingisi davom ettirilguncha yuborilmaydi
+  const handleTogglePause = () => {
+    const control = quizControlRef.current;
+    if (!control) return;
+    if (control.isPaused) {
+      control.resume();
+    } else {
+      control.pause();
     }
+    setIsPaused(control.isPaused);
+  };
+
+  const handleStopQuiz = () => {
+    quizControlRef.current?.stop();
+    setIsPaused(false);
   };
 
   // Add function to download Excel report
@@ -245,14 +550,139 @@ const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({ config }, ref)
     if (quizRankings.length === 0) return;
     
     const blob = generateExcelReport(quizRankings);
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `test_natijalari_${new Date().toISOString().slice(0, 10)}.xlsx`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `test_natijalari_${new Date().toISOString().slice(0, 10)}.xlsx`);
+  };
+
+  // Hisobotdagi qatorni o'tkazib yuborish: savol ham, muammolar ham olib tashlanadi
+  const handleSkipRow = (row: number) => {
+    setQuestions((prev) => prev.filter((q) => q.rowNumber !== row));
+    setValidationIssues((prev) => prev.filter((issue) => issue.row !== row));
+  };
+
+  // Tuzatilgan qatorni qayta tekshirish; yaroqli bo'lsa savol ro'yxatga qo'shiladi yoki yangilanadi
+  const handleFixRow = (draft: QuestionDraft): ValidationIssue[] => {
+    const { question, issues } = validateQuestionDraft(draft);
+
+    setValidationIssues((prev) =>
+      [...prev.filter((issue) => issue.row !== draft.row), ...issues].sort((a, b) => a.row - b.row)
+    );
+    setQuestionDrafts((prev) => [...prev.filter((d) => d.row !== draft.row), draft]);
+    if (question) {
+      setQuestions((prev) => {
+        const existing = prev.find((q) => q.rowNumber === draft.row);
+        // Izoh yoki qo'shimcha to'g'ri javoblar o'chirilgan bo'lsa eskisi qaytib qolmasligi kerak
+        return [
+          ...prev.filter((q) => q.rowNumber !== draft.row),
+          {
+            sourceFile: fileName,
+            ...existing,
+            ...question,
+            correctAnswers: question.correctAnswers,
+            explanation: question.explanation,
+            topic: question.topic,
+            difficulty: question.difficulty,
+            tags: question.tags,
+          },
+        ].sort(
+          (a, b) => a.rowNumber - b.rowNumber
+        );
+      });
+    }
+    return issues;
+  };
+
+  const handleConfirmMapping = async (mapping: ColumnMapping) => {
+    if (!pendingMapping) return;
+    saveColumnMapping(pendingMapping.request.headers, mapping);
+    await handleFileChange(pendingMapping.file);
+  };
+
+  // Muharrirdagi o'zgarishlar: ogohlantirishlar yangi matn bo'yicha qayta hisoblanadi,
+  // rad etilgan qatorlar xatolari esa hisobotda qoladi
+  const handleApplyEdits = (edited: Question[]) => {
+    setQuestions(edited);
+    setValidationIssues((prev) =>
+      [...prev.filter((issue) => issue.severity !== 'warning'), ...edited.flatMap(getQuestionWarnings)].sort(
+        (a, b) => a.row - b.row
+      )
+    );
+    setSuccess(`O'zgarishlar qo'llandi: ${edited.length} ta savol`);
+  };
+
+  // Birlashtirish: tanlangan savol qo'shimcha ma'lumotlari bilan qoladi, qolganlari bankdan olib tashlanadi
+  const handleMergeDuplicates = (kept: Question, others: Question[]) => {
+    const keptKey = getQuestionKey(kept);
+    const removedKeys = new Set(others.map(getQuestionKey));
+    setQuestions((prev) =>
+      prev
+        .filter((q) => !removedKeys.has(getQuestionKey(q)))
+        .map((q) => (getQuestionKey(q) === keptKey ? mergeDuplicateQuestions(q, others) : q))
+    );
+    setSuccess(`${others.length} ta takroriy savol olib tashlandi, ${formatQuestionSource(kept)} qoldi`);
+  };
+
+  const handleDownloadEdited = (edited: Question[]) => {
+    const baseName = stripFileExtension(fileName) || 'savollar';
+    downloadBlob(exportQuestionsToExcel(edited), `${baseName}_tahrirlangan.xlsx`);
+  };
+
+  // Kutubxonadagi bankni tanlash: savollar allaqachon tekshirilgan, hisobot bo'sh bo'ladi
+  const handleLoadBank = (bank: QuestionBank) => {
+    setFileName(bank.name);
+    setQuestions(bank.questions);
+    setValidationIssues([]);
+    setQuestionDrafts([]);
+    setPollStrategies({});
+    setBlueprint(null);
+    setPickedKeys([]);
+    setEmbeddedImages(collectQuestionImages(bank.questions));
+    setError('');
+    setTestResult(null);
+    setSuccess(`"${bank.name}" banki tanlandi: ${bank.questions.length} ta savol`);
+    setQuizSettings((prev) => ({ ...prev, questionCount: Math.min(prev.questionCount, bank.questions.length) }));
+  };
+
+  const handlePollStrategyChange = (key: string, kind: PollIssueKind, strategy: PollIssueStrategy) => {
+    setPollStrategies((prev) => ({ ...prev, [key]: { ...prev[key], [kind]: strategy } }));
+  };
+
+  const handleDownloadCorrected = () => {
+    const baseName = stripFileExtension(fileName) || 'savollar';
+    downloadBlob(generateCorrectedWorkbook(questions, validationIssues), `${baseName}_tuzatilgan.xlsx`);
+  };
+
+  // Tanlangan yozuvga o'girilgan savollarni Excel fayl sifatida yuklab olish
+  const handleDownloadTransliterated = () => {
+    const baseName = stripFileExtension(fileName) || 'savollar';
+    const suffix = quizSettings.script === 'cyrillic' ? 'kirill' : 'lotin';
+    downloadBlob(exportQuestionsToExcel(scriptQuestions), `${baseName}_${suffix}.xlsx`);
+  };
+
+  // Yuklangan savollarni CSV/TSV, JSON yoki Moodle formatlarida eksport qilish
+  const handleExportQuestions = (format: QuestionExportFormat) => {
+    if (questions.length === 0) return;
+
+    // Formatda saqlanmaydigan savollar tashlab ketiladi - foydalanuvchiga qaysilari ekanligi ko'rsatiladi
+    const { unsupported } = format;
+    const skipped = unsupported ? questions.filter(unsupported.isUnsupported) : [];
+    if (unsupported && skipped.length === questions.length) {
+      setSuccess('');
+      setError(`${format.label} faylga yoziladigan savol yo'q: ${unsupported.reason}`);
+      return;
+    }
+
+    const baseName = stripFileExtension(fileName) || 'savollar';
+    downloadBlob(format.exportQuestions(questions, baseName), `${baseName}${format.fileSuffix}`);
+
+    if (unsupported && skipped.length > 0) {
+      const shown = skipped.slice(0, 10).map(formatQuestionSource).join('; ');
+      const more = skipped.length > 10 ? ` va yana ${skipped.length - 10} ta` : '';
+      setError('');
+      setSuccess(
+        `${format.label} faylga ${questions.length - skipped.length} ta savol yozildi. ` +
+          `${skipped.length} ta savol tashlab ketildi (${unsupported.reason}): ${shown}${more}`
+      );
+    }
   };
 
   return (
@@ -262,6 +692,14 @@ const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({ config }, ref)
         Test savollarini yuklash
       </h3>
 
+      <InterruptedSessions
+        sessions={interruptedSessions}
+        disabled={isSending || !config.botToken}
+        onResume={handleResumeSession}
+        onFinalize={handleFinalizeSession}
+        onDiscard={handleDiscardSession}
+      />
+
       <div
         className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors duration-200 ${
           isDragging
@@ -279,7 +717,7 @@ const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({ config }, ref)
           type="file"
           ref={fileInputRef}
           onChange={handleFileInputChange}
-          accept=".xlsx,.xls"
+          accept={SUPPORTED_QUESTION_FILE_EXTENSIONS.join(',')}
           className="hidden"
           aria-hidden="true"
         />
@@ -289,17 +727,45 @@ const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({ config }, ref)
         <h4 className="text-lg font-medium text-white mb-2">
           {isDragging
             ? 'Faylni bu yerga tashlang'
-            : 'Excel faylini yuklang yoki sudrab keling'}
+            : 'Test faylini yuklang yoki sudrab keling'}
         </h4>
 
         <p id="file-upload-desc" className="text-gray-400 text-sm">
-          .xlsx yoki .xls formatidagi fayllar qabul qilinadi (maksimal 10MB)
+          Excel (.xlsx, .xls), CSV/TSV, JSON, quizData saqlangan .html, HEMIS (++++ / ====) .txt/.docx, Moodle GIFT, Aiken va XML fayllar qabul qilinadi (Excel - maksimal {formatMegabytes(MAX_WORKER_EXCEL_FILE_SIZE)}, boshqalari - {formatMegabytes(MAX_QUESTION_FILE_SIZE)}). Rasmli savollar uchun rasmlar papkasini ham birga tashlang
         </p>
       </div>
 
       {isUploading && (
-        <div className="flex justify-center my-4">
+        <div className="flex flex-col items-center my-4">
           <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-purple-500"></div>
+          {parseProgress && (
+            <div className="w-full max-w-md mt-3 text-sm text-gray-300">
+              {parseProgress.stage === 'reading' ? (
+                <p className="text-center">Fayl ochilmoqda...</p>
+              ) : (
+                <>
+                  <div className="h-2 bg-[#3b3950] rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-purple-500 transition-all duration-200"
+                      style={{
+                        width: `${parseProgress.totalRows > 0 ? (parseProgress.rowsProcessed / parseProgress.totalRows) * 100 : 0}%`,
+                      }}
+                    />
+                  </div>
+                  <p className="mt-1 text-center">
+                    {parseProgress.rowsProcessed} / {parseProgress.totalRows} qator, {parseProgress.errors} ta xato
+                  </p>
+                </>
+              )}
+              <button
+                onClick={() => parseAbortRef.current?.abort()}
+                className="mt-2 mx-auto flex items-center py-1 px-3 rounded-md text-sm text-gray-300 hover:text-white"
+              >
+                <X size={16} className="mr-1" />
+                Bekor qilish
+              </button>
+            </div>
+          )}
         </div>
       )}
 
@@ -317,6 +783,15 @@ const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({ config }, ref)
         </div>
       )}
 
+      {pendingMapping && (
+        <ColumnMappingDialog
+          fileName={pendingMapping.file.name}
+          request={pendingMapping.request}
+          onConfirm={handleConfirmMapping}
+          onCancel={() => setPendingMapping(null)}
+        />
+      )}
+
       {fileName && (
         <div className="mb-6">
           <div className="bg-[#3b3950] rounded-lg p-4 flex items-center">
@@ -325,10 +800,93 @@ const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({ config }, ref)
               <p className="text-white font-medium">{fileName}</p>
               <p className="text-gray-400 text-sm">{questions.length} ta savol</p>
             </div>
+            {questions.length > 0 && (
+              <div className="ml-auto flex flex-wrap justify-end gap-2">
+                {QUESTION_EXPORT_FORMATS.map((format) => (
+                  <button
+                    key={format.id}
+                    onClick={() => handleExportQuestions(format)}
+                    className="flex items-center bg-[#2d2b3d] hover:bg-[#4d4b63] text-white py-1 px-3 rounded-md text-sm transition-colors duration-200"
+                    title={`Savollarni ${format.label} formatida yuklab olish`}
+                  >
+                    <Download size={14} className="mr-1" />
+                    {format.label}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
+
+          {questions.length > 0 && (
+            <div className="mt-2 bg-[#3b3950] rounded-lg p-3 text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-gray-300 flex items-center">
+                  <ImageIcon size={16} className="text-blue-400 mr-2" />
+                  Rasmli savollar: {imageQuestionCount} ta, yuklangan rasmlar: {Object.keys(imageLibrary).length} ta
+                </span>
+                <button
+                  onClick={() => imageFolderInputRef.current?.click()}
+                  className="flex items-center bg-[#2d2b3d] hover:bg-[#4d4b63] text-white py-1 px-3 rounded-md transition-colors duration-200"
+                >
+                  <Upload size={14} className="mr-1" />
+                  Rasmlar papkasini tanlash
+                </button>
+              </div>
+              {missingImageQuestions.length > 0 && (
+                <p className="mt-2 text-yellow-200">
+                  {missingImageQuestions.length} ta savol rasmi topilmadi (qatorlar:{' '}
+                  {missingImageQuestions
+                    .slice(0, 10)
+                    .map((q) => q.rowNumber)
+                    .join(', ')}
+                  {missingImageQuestions.length > 10 ? ', ...' : ''}). Bu savollar rasmsiz yuboriladi.
+                </p>
+              )}
+            </div>
+          )}
         </div>
       )}
 
+      {questions.length > 0 && (
+        <QuestionPreview questions={questions} selectedKeys={activePickedKeys} onSelectionChange={setPickedKeys} />
+      )}
+
+      <QuestionLibrary questions={libraryQuestions} defaultName={stripFileExtension(fileName)} onLoadBank={handleLoadBank} />
+
+      <input
+        type="file"
+        ref={imageFolderInputRef}
+        onChange={handleImageFolderChange}
+        multiple
+        className="hidden"
+        aria-hidden="true"
+      />
+
+      {fileName && (
+        <ValidationReport
+          issues={validationIssues}
+          questions={questions}
+          drafts={questionDrafts}
+          onSkipRow={handleSkipRow}
+          onFixRow={handleFixRow}
+          onDownload={handleDownloadCorrected}
+        />
+      )}
+
+      {questions.length > 0 && (
+        <QuestionEditor questions={questions} onApply={handleApplyEdits} onDownload={handleDownloadEdited} />
+      )}
+
+      {questions.length > 1 && (
+        <DuplicateReview
+          clusters={duplicateClusters}
+          isSearching={isFindingDuplicates}
+          threshold={duplicateThreshold}
+          onThresholdChange={setDuplicateThreshold}
+          onMerge={handleMergeDuplicates}
+        />
+      )}
+
       {questions.length > 0 && (
         <div className="space-y-6 mb-6">
           <div>
@@ -343,18 +901,20 @@ const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({ config }, ref)
                 id="questionCount"
                 type="number"
                 min={1}
-                max={questions.length}
-                value={quizSettings.questionCount}
+                max={Math.min(questions.length, MAX_SESSION_QUESTIONS)}
+                value={sessionQuestionCount}
+                disabled={isFixedCountSelection(selection) || activeBlueprint !== null}
                 onChange={(e) =>
                   setQuizSettings((prev) => ({
                     ...prev,
                     questionCount: Math.min(
                       Math.max(1, parseInt(e.target.value) || 1),
-                      questions.length
+                      questions.length,
+                      MAX_SESSION_QUESTIONS
                     ),
                   }))
                 }
-                className="w-24 bg-[#3b3950] text-white p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                className="w-24 bg-[#3b3950] text-white p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
                 aria-describedby="question-count-desc"
               />
               <span className="ml-2 text-gray-400">
@@ -362,10 +922,31 @@ const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({ config }, ref)
               </span>
             </div>
             <p id="question-count-desc" className="text-xs text-gray-400 mt-1">
-              Maksimal {questions.length} ta savol tanlash mumkin
+              {selection.mode === 'manual'
+                ? "Savollar ro'yxatida qo'lda tanlangan savollar yuboriladi"
+                : selection.mode === 'rowRange'
+                  ? "Savollar soni qatorlar oralig'idan olinadi"
+                  : activeBlueprint
+                    ? 'Savollar soni quyidagi tarkibdan olinadi'
+                    : `Maksimal ${Math.min(questions.length, MAX_SESSION_QUESTIONS)} ta savol tanlash mumkin`}
             </p>
           </div>
 
+          <SelectionStrategyPicker
+            value={quizSettings.selection}
+            disabledReason={
+              selection.mode === 'manual'
+                ? "Savollar ro'yxatida qo'lda tanlangan savollar yuboriladi"
+                : activeBlueprint
+                  ? "Savollar quyidagi tarkib bo'yicha tanlanadi"
+                  : undefined
+            }
+            countError={sessionCountError}
+            onChange={(strategy) => setQuizSettings((prev) => ({ ...prev, selection: strategy }))}
+          />
+
+          <SessionBlueprintBuilder questions={groupedQuestions} blueprint={blueprint} onChange={setBlueprint} />
+
           <div>
             <label
               htmlFor="intervalSeconds"
@@ -396,19 +977,123 @@ const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({ config }, ref)
               Minimal: 1 soniya, Maksimal: 300 soniya
             </p>
           </div>
+
+          <div>
+            <label htmlFor="showRowNumber" className="flex items-center text-sm font-medium text-gray-300">
+              <input
+                id="showRowNumber"
+                type="checkbox"
+                checked={quizSettings.showRowNumber}
+                onChange={(e) =>
+                  setQuizSettings((prev) => ({
+                    ...prev,
+                    showRowNumber: e.target.checked,
+                  }))
+                }
+                className="mr-2 accent-purple-600"
+              />
+              Izohda savolning fayldagi qator raqamini ko'rsatish
+            </label>
+            <p className="text-xs text-gray-400 mt-1">
+              "Izoh" ustunidagi matn poll izohi sifatida yuboriladi; 200 belgidan uzun izoh alohida xabarda keladi
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="questionScript" className="block text-sm font-medium text-gray-300 mb-2">
+              Savollar yozuvi:
+            </label>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                id="questionScript"
+                value={quizSettings.script}
+                onChange={(e) =>
+                  setQuizSettings((prev) => ({
+                    ...prev,
+                    script: e.target.value as QuestionScript,
+                  }))
+                }
+                className="bg-[#3b3950] text-white p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                {(Object.keys(QUESTION_SCRIPT_LABELS) as QuestionScript[]).map((script) => (
+                  <option key={script} value={script}>
+                    {QUESTION_SCRIPT_LABELS[script]}
+                  </option>
+                ))}
+              </select>
+              {quizSettings.script !== 'original' && (
+                <button
+                  onClick={handleDownloadTransliterated}
+                  className="flex items-center bg-[#3b3950] hover:bg-[#4d4b63] text-white py-2 px-3 rounded-md text-sm transition-colors duration-200"
+                >
+                  <Download size={14} className="mr-1" />
+                  Excel'da yuklab olish
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-gray-400 mt-1">
+              Savol, variantlar va izohlar lotin ⇄ kirill yozuviga o'giriladi; kod parchalari (masalan, &lt;?php) o'zgarmaydi
+            </p>
+          </div>
+
+          {multiAnswerCount > 0 && (
+            <div>
+              <label htmlFor="multiAnswerScoring" className="block text-sm font-medium text-gray-300 mb-2">
+                Ko'p javobli savollarni baholash ({multiAnswerCount} ta savol):
+              </label>
+              <select
+                id="multiAnswerScoring"
+                value={quizSettings.multiAnswerScoring}
+                onChange={(e) =>
+                  setQuizSettings((prev) => ({
+                    ...prev,
+                    multiAnswerScoring: e.target.value as MultiAnswerScoring,
+                  }))
+                }
+                className="bg-[#3b3950] text-white p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                {(Object.keys(MULTI_ANSWER_SCORING_LABELS) as MultiAnswerScoring[]).map((scoring) => (
+                  <option key={scoring} value={scoring}>
+                    {MULTI_ANSWER_SCORING_LABELS[scoring]}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-400 mt-1">
+                Bunday savollar bir nechta variantni tanlash mumkin bo'lgan oddiy poll sifatida yuboriladi
+              </p>
+            </div>
+          )}
         </div>
       )}
 
+      {questions.length > 0 && (
+        <TelegramPreflight
+          questions={scriptQuestions}
+          strategies={pollStrategies}
+          questionCount={sessionQuestionCount}
+          confirmed={preflightConfirmed}
+          onStrategyChange={handlePollStrategyChange}
+          onConfirm={() => setPreflightConfirmed(true)}
+        />
+      )}
+
       {questions.length > 0 && (
         <button
           onClick={handleSendToTelegram}
-          disabled={isSending || !config.botToken || !config.userId}
+          disabled={
+            isSending ||
+            !config.botToken ||
+            !config.userId ||
+            (hasPollIssues && !preflightConfirmed) ||
+            blueprintShortages.length > 0 ||
+            sessionCountError !== null
+          }
           className="w-full flex items-center justify-center bg-purple-600 hover:bg-purple-700 text-white py-3 px-4 rounded-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {isSending ? (
             <>
               <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-white mr-2"></div>
-              Yuborilmoqda...
+              {isPaused ? 'Pauzada...' : 'Yuborilmoqda...'}
             </>
           ) : (
             <>
@@ -419,6 +1104,27 @@ const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({ config }, ref)
         </button>
       )}
 
+      {isSending && isRunControllable && (
+        <div className="mt-2 flex gap-2">
+          <button
+            onClick={handleTogglePause}
+            className="flex-1 flex items-center justify-center bg-[#3b3950] hover:bg-[#4d4b63] text-white py-2 px-4 rounded-md text-sm transition-colors duration-200"
+          >
+            {isPaused ? <Play size={16} className="mr-2" /> : <Pause size={16} className="mr-2" />}
+            {isPaused ? 'Davom ettirish' : 'Pauza'}
+          </button>
+          <button
+            onClick={handleStopQuiz}
+            className="flex-1 flex items-center justify-center bg-red-700 hover:bg-red-800 text-white py-2 px-4 rounded-md text-sm transition-colors duration-200"
+          >
+            <Square size={16} className="mr-2" />
+            To'xtatish
+          </button>
+        </div>
+      )}
+
+      {isSending && liveProgress && <LiveQuizPanel state={liveProgress} />}
+
       {testResult && (
         <div className="mt-6 bg-[#3b3950] rounded-lg p-4">
           <div className="flex justify-between items-center">
@@ -0,0 +1,69 @@
+import React from 'react';
+import { History, Play, CheckCircle, Trash2 } from 'lucide-react';
+import { QuizCheckpoint } from '../utils/quizCheckpoint';
+import { QUIZ_TARGET_LABELS } from '../utils/quizRunner';
+
+interface InterruptedSessionsProps {
+  sessions: QuizCheckpoint[];
+  disabled: boolean; // test yuborilayotgan yoki bot token kiritilmagan
+  onResume: (checkpoint: QuizCheckpoint) => void;
+  onFinalize: (checkpoint: QuizCheckpoint) => void;
+  onDiscard: (checkpoint: QuizCheckpoint) => void;
+}
+
+const formatDate = (timestamp: number): string => new Date(timestamp).toLocaleString('uz-UZ');
+
+// Sahifa yangilanishi yoki xato sabab yakunlanmay qolgan testlar: davom ettirish yoki yig'ilgan natijalar bilan yakunlash
+const InterruptedSessions: React.FC<InterruptedSessionsProps> = ({ sessions, disabled, onResume, onFinalize, onDiscard }) => {
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="mb-6 bg-yellow-900/20 border border-yellow-600 rounded-lg p-4">
+      <h4 className="text-lg font-medium text-white flex items-center mb-3">
+        <History size={20} className="text-yellow-400 mr-2" />
+        Yakunlanmagan testlar
+      </h4>
+      <ul className="space-y-2">
+        {sessions.map((checkpoint) => (
+          <li key={checkpoint.id} className="bg-[#2d2b3d] rounded-md p-3 flex flex-wrap items-center gap-3">
+            <div className="flex-1 min-w-[12rem] text-sm">
+              <div className="text-white">
+                {QUIZ_TARGET_LABELS[checkpoint.target.kind]}: {checkpoint.target.chatIds.join(', ')}
+              </div>
+              <div className="text-gray-400 text-xs">
+                {checkpoint.nextQuestionIndex}/{checkpoint.questions.length} savol yuborilgan ·{' '}
+                {checkpoint.target.participants.length} ishtirokchi · {formatDate(checkpoint.updatedAt)}
+              </div>
+            </div>
+            <button
+              onClick={() => onResume(checkpoint)}
+              disabled={disabled}
+              className="flex items-center bg-purple-600 hover:bg-purple-700 text-white py-1 px-3 rounded-md text-sm transition-colors duration-200 disabled:opacity-50"
+            >
+              <Play size={14} className="mr-1" />
+              Davom ettirish
+            </button>
+            <button
+              onClick={() => onFinalize(checkpoint)}
+              disabled={disabled}
+              className="flex items-center bg-[#3b3950] hover:bg-[#4d4b63] text-white py-1 px-3 rounded-md text-sm transition-colors duration-200 disabled:opacity-50"
+            >
+              <CheckCircle size={14} className="mr-1" />
+              Natijalar bilan yakunlash
+            </button>
+            <button
+              onClick={() => onDiscard(checkpoint)}
+              disabled={disabled}
+              className="flex items-center py-1 px-2 rounded-md text-sm text-gray-400 hover:text-red-400 disabled:opacity-50"
+              title="O'chirish"
+            >
+              <Trash2 size={14} />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default InterruptedSessions;
@@ -0,0 +1,131 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Activity, Clock, Trophy } from 'lucide-react';
+import { LiveQuizState, getLiveLeaderboard } from '../utils/quizProgress';
+import { QUIZ_TARGET_LABELS } from '../utils/quizRunner';
+
+interface LiveQuizPanelProps {
+  state: LiveQuizState;
+}
+
+const LEADERBOARD_SIZE = 10;
+
+const getCellClass = (score: number | undefined, isAsked: boolean): string => {
+  if (score === undefined) return isAsked ? 'bg-gray-500' : 'bg-[#3b3950]';
+  if (score >= 1) return 'bg-green-500';
+  if (score > 0) return 'bg-yellow-500';
+  return 'bg-red-500';
+};
+
+// Test davomida: joriy savol va qolgan vaqt, har bir ishtirokchining javob berdi/bermadi jadvali va jonli reyting
+const LiveQuizPanel: React.FC<LiveQuizPanelProps> = ({ state }) => {
+  const [now, setNow] = useState(() => Date.now());
+  const { current, participants, questionCount, delivery } = state;
+
+  useEffect(() => {
+    if (current?.deadline === undefined) return;
+    const timer = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(timer);
+  }, [current]);
+
+  const leaderboard = useMemo(() => getLiveLeaderboard(state).slice(0, LEADERBOARD_SIZE), [state]);
+
+  const secondsLeft =
+    current?.deadline !== undefined ? Math.max(0, Math.ceil((current.deadline - now) / 1000)) : null;
+  const deliveryValues = Object.values(delivery);
+  const deliveredCount = deliveryValues.filter(Boolean).length;
+  const askedCount = current ? current.index + 1 : 0;
+  const answeredCurrent = current ? participants.filter((p) => p.scores[current.index] !== undefined).length : 0;
+
+  return (
+    <div className="mt-4 bg-[#3b3950] rounded-lg p-4">
+      <h4 className="text-lg font-medium text-white flex items-center mb-3">
+        <Activity size={20} className="text-green-400 mr-2" />
+        Jonli holat
+        <span className="ml-2 text-sm text-gray-400 font-normal">{QUIZ_TARGET_LABELS[state.target]}</span>
+      </h4>
+
+      {current ? (
+        <div className="mb-4">
+          <div className="flex items-center justify-between text-sm text-gray-300 mb-1">
+            <span>
+              Savol {current.index + 1}/{questionCount}
+            </span>
+            {secondsLeft !== null && (
+              <span className="flex items-center">
+                <Clock size={14} className="mr-1" />
+                {secondsLeft} soniya qoldi
+              </span>
+            )}
+          </div>
+          <p className="text-white mb-2 line-clamp-2">{current.text}</p>
+          <div className="text-xs text-gray-400 flex flex-wrap gap-3">
+            {deliveryValues.length > 0 && (
+              <span>
+                Yetkazildi: {deliveredCount}/{deliveryValues.length}
+              </span>
+            )}
+            {participants.length > 0 && (
+              <span>
+                Javob berdi: {answeredCurrent}/{participants.length}
+              </span>
+            )}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400 mb-4">Birinchi savol tayyorlanmoqda...</p>
+      )}
+
+      {participants.length > 0 && (
+        <div className="grid md:grid-cols-2 gap-4">
+          <div className="overflow-x-auto">
+            <h5 className="text-sm font-medium text-gray-300 mb-2">Javoblar jadvali</h5>
+            <table className="text-xs">
+              <tbody>
+                {participants.map((participant) => (
+                  <tr key={participant.userId}>
+                    <td className="pr-2 py-0.5 text-gray-300 whitespace-nowrap max-w-[8rem] truncate">
+                      {participant.name}
+                      {delivery[participant.userId] === false && <span className="ml-1 text-red-400">(yetkazilmadi)</span>}
+                    </td>
+                    <td className="py-0.5">
+                      <div className="flex gap-0.5">
+                        {Array.from({ length: questionCount }, (_, index) => (
+                          <span
+                            key={index}
+                            title={`${index + 1}-savol`}
+                            className={`w-2.5 h-2.5 rounded-sm ${getCellClass(participant.scores[index], index < askedCount)}`}
+                          />
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <h5 className="text-sm font-medium text-gray-300 mb-2 flex items-center">
+              <Trophy size={14} className="text-yellow-400 mr-1" />
+              Jonli reyting
+            </h5>
+            <ol className="text-sm space-y-1">
+              {leaderboard.map((entry, index) => (
+                <li key={entry.userId} className="flex justify-between text-gray-200">
+                  <span className="truncate">
+                    {index + 1}. {entry.name}
+                  </span>
+                  <span className="text-gray-400 ml-2 whitespace-nowrap">
+                    {entry.score} / {entry.answeredCount}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LiveQuizPanel;
@@ -0,0 +1,245 @@
+import React, { useMemo, useState } from 'react';
+import { Edit, Plus, Trash2, ArrowUp, ArrowDown, Download, Check, X, AlertCircle } from 'lucide-react';
+import { Question } from '../types';
+import { getQuestionStructureErrors, MAX_OPTIONS } from '../utils/questionValidation';
+import { isCorrectOption } from '../utils/correctAnswers';
+import { formatQuestionSource } from '../utils/questionSource';
+
+interface QuestionEditorProps {
+  questions: Question[];
+  onApply: (questions: Question[]) => void;
+  onDownload: (questions: Question[]) => void;
+}
+
+const PAGE_SIZE = 50;
+
+// Variantlar o'zgarganda to'g'ri javoblar ham shu variantlar bo'yicha qayta yig'iladi
+const withOptions = (question: Question, options: string[], correctFlags: boolean[]): Question => {
+  const answers = options.filter((_, index) => correctFlags[index]);
+  return { ...question, options, correctAnswer: answers[0] || '', correctAnswers: answers.length > 1 ? answers : undefined };
+};
+
+// To'g'ri javob hali belgilanmagan yangi savolda bo'sh variantlar "to'g'ri" bo'lib ko'rinmasligi kerak
+const getCorrectFlags = (question: Question): boolean[] =>
+  question.options.map((opt) => !!question.correctAnswer && isCorrectOption(question, opt));
+
+// Yuklangan savollarni brauzerda tahrirlash: qo'shish, o'chirish, tartiblash, to'g'ri javobni belgilash
+const QuestionEditor: React.FC<QuestionEditorProps> = ({ questions, onApply, onDownload }) => {
+  const [draft, setDraft] = useState<Question[] | null>(null);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const errors = useMemo(() => (draft ? draft.map(getQuestionStructureErrors) : []), [draft]);
+  const invalidCount = errors.filter((questionErrors) => questionErrors.length > 0).length;
+
+  if (!draft) {
+    return (
+      <button
+        onClick={() => {
+          setDraft(questions);
+          setVisibleCount(PAGE_SIZE);
+        }}
+        className="mb-6 w-full flex items-center justify-center bg-[#3b3950] hover:bg-[#4d4b63] text-white py-2 px-4 rounded-md text-sm transition-colors duration-200"
+      >
+        <Edit size={16} className="mr-2" />
+        Savollarni tahrirlash
+      </button>
+    );
+  }
+
+  const updateQuestion = (index: number, update: (question: Question) => Question) =>
+    setDraft(draft.map((q, i) => (i === index ? update(q) : q)));
+
+  const moveQuestion = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= draft.length) return;
+    const next = [...draft];
+    [next[index], next[target]] = [next[target], next[index]];
+    setDraft(next);
+  };
+
+  const addQuestion = () => {
+    // Yangi savolga mavjudlaridan keyingi qator raqami beriladi
+    const rowNumber = Math.max(1, ...draft.map((q) => q.rowNumber)) + 1;
+    setDraft([...draft, { question: '', correctAnswer: '', options: ['', ''], rowNumber }]);
+    setVisibleCount(Math.max(visibleCount, draft.length + 1));
+  };
+
+  return (
+    <div className="mb-6 bg-[#3b3950] rounded-lg p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h4 className="text-lg font-medium text-white flex items-center">
+          <Edit size={20} className="text-blue-400 mr-2" />
+          Savollar muharriri
+        </h4>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => onDownload(draft)}
+            disabled={invalidCount > 0}
+            className="flex items-center bg-green-600 hover:bg-green-700 text-white py-1 px-3 rounded-md text-sm transition-colors duration-200 disabled:opacity-50"
+          >
+            <Download size={16} className="mr-1" />
+            Excel yuklab olish
+          </button>
+          <button
+            onClick={() => {
+              onApply(draft);
+              setDraft(null);
+            }}
+            disabled={invalidCount > 0}
+            className="flex items-center bg-purple-600 hover:bg-purple-700 text-white py-1 px-3 rounded-md text-sm transition-colors duration-200 disabled:opacity-50"
+          >
+            <Check size={16} className="mr-1" />
+            O'zgarishlarni qo'llash
+          </button>
+          <button
+            onClick={() => setDraft(null)}
+            className="flex items-center py-1 px-3 rounded-md text-sm text-gray-300 hover:text-white"
+          >
+            <X size={16} className="mr-1" />
+            Bekor qilish
+          </button>
+        </div>
+      </div>
+
+      {invalidCount > 0 && (
+        <p className="mb-3 text-sm text-red-300 flex items-center">
+          <AlertCircle size={16} className="mr-1" />
+          {invalidCount} ta savolda xato bor - tuzatilmaguncha o'zgarishlar qo'llanmaydi
+        </p>
+      )}
+
+      <div className="space-y-3">
+        {draft.slice(0, visibleCount).map((question, index) => {
+          const correctFlags = getCorrectFlags(question);
+          return (
+            <div
+              key={index}
+              className={`bg-[#2d2b3d] rounded-md p-3 border ${errors[index].length > 0 ? 'border-red-500' : 'border-transparent'}`}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <span className="text-white font-medium">
+                  {index + 1}. <span className="text-xs text-gray-400">{formatQuestionSource(question)}</span>
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => moveQuestion(index, -1)}
+                    disabled={index === 0}
+                    className="text-gray-400 hover:text-white disabled:opacity-30"
+                    aria-label="Yuqoriga"
+                  >
+                    <ArrowUp size={16} />
+                  </button>
+                  <button
+                    onClick={() => moveQuestion(index, 1)}
+                    disabled={index === draft.length - 1}
+                    className="text-gray-400 hover:text-white disabled:opacity-30"
+                    aria-label="Pastga"
+                  >
+                    <ArrowDown size={16} />
+                  </button>
+                  <button
+                    onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+                    className="text-gray-400 hover:text-red-400"
+                    aria-label="Savolni o'chirish"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+
+              <textarea
+                value={question.question}
+                onChange={(e) => updateQuestion(index, (q) => ({ ...q, question: e.target.value }))}
+                placeholder="Savol"
+                rows={2}
+                className="w-full bg-[#17161c] text-white p-2 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+
+              <div className="mt-2 space-y-1">
+                {question.options.map((option, optionIndex) => (
+                  <div key={optionIndex} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={correctFlags[optionIndex]}
+                      onChange={() =>
+                        updateQuestion(index, (q) =>
+                          withOptions(q, q.options, correctFlags.map((flag, i) => (i === optionIndex ? !flag : flag)))
+                        )
+                      }
+                      className="accent-green-600"
+                      aria-label="To'g'ri javob"
+                      title="To'g'ri javob"
+                    />
+                    <input
+                      value={option}
+                      onChange={(e) =>
+                        updateQuestion(index, (q) =>
+                          withOptions(q, q.options.map((opt, i) => (i === optionIndex ? e.target.value : opt)), correctFlags)
+                        )
+                      }
+                      placeholder="Javob varianti"
+                      className={`flex-grow bg-[#17161c] text-white p-2 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 border ${
+                        correctFlags[optionIndex] ? 'border-green-700' : 'border-transparent'
+                      }`}
+                    />
+                    <button
+                      onClick={() =>
+                        updateQuestion(index, (q) =>
+                          withOptions(
+                            q,
+                            q.options.filter((_, i) => i !== optionIndex),
+                            correctFlags.filter((_, i) => i !== optionIndex)
+                          )
+                        )
+                      }
+                      className="text-gray-400 hover:text-red-400"
+                      aria-label="Variantni o'chirish"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+                {question.options.length < MAX_OPTIONS && (
+                  <button
+                    onClick={() => updateQuestion(index, (q) => withOptions(q, [...q.options, ''], [...correctFlags, false]))}
+                    className="flex items-center bg-[#3b3950] hover:bg-[#4d4b63] text-white py-1 px-2 rounded-md text-xs transition-colors duration-200"
+                  >
+                    <Plus size={14} className="mr-1" />
+                    Variant qo'shish
+                  </button>
+                )}
+              </div>
+
+              {errors[index].length > 0 && (
+                <ul className="mt-2 text-xs text-red-300 list-disc list-inside">
+                  {errors[index].map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {draft.length > visibleCount && (
+        <button
+          onClick={() => setVisibleCount((prev) => prev + PAGE_SIZE)}
+          className="mt-3 w-full bg-[#2d2b3d] hover:bg-[#4d4b63] text-gray-300 py-2 rounded-md text-sm transition-colors duration-200"
+        >
+          Yana ko'rsatish ({draft.length - visibleCount} ta savol qoldi)
+        </button>
+      )}
+
+      <button
+        onClick={addQuestion}
+        className="mt-3 w-full flex items-center justify-center bg-[#2d2b3d] hover:bg-[#4d4b63] text-white py-2 rounded-md text-sm transition-colors duration-200"
+      >
+        <Plus size={16} className="mr-1" />
+        Savol qo'shish
+      </button>
+    </div>
+  );
+};
+
+export default QuestionEditor;
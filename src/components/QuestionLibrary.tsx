@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Library, Save, Search, Trash2, Merge, FolderOpen, Edit } from 'lucide-react';
+import { Question } from '../types';
+import {
+  QuestionBank,
+  deleteQuestionBank,
+  listQuestionBanks,
+  mergeQuestionBanks,
+  renameQuestionBank,
+  saveQuestionBank,
+  searchQuestionBanks,
+} from '../utils/questionLibrary';
+
+interface QuestionLibraryProps {
+  questions: Question[]; // hozir yuklangan savollar (topilgan rasmlari biriktirilgan) - "saqlash" uchun
+  defaultName: string;
+  onLoadBank: (bank: QuestionBank) => void;
+}
+
+const formatDate = (timestamp: number): string => new Date(timestamp).toLocaleString('uz-UZ');
+
+const QuestionLibrary: React.FC<QuestionLibraryProps> = ({ questions, defaultName, onLoadBank }) => {
+  const [banks, setBanks] = useState<QuestionBank[]>([]);
+  const [query, setQuery] = useState('');
+  const [bankName, setBankName] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [mergeName, setMergeName] = useState('');
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    listQuestionBanks()
+      .then(setBanks)
+      .catch((err) => setError((err as Error).message));
+  }, []);
+
+  // Yangi fayl yuklanganda bank nomi fayl nomidan olinadi
+  useEffect(() => {
+    setBankName(defaultName);
+  }, [defaultName]);
+
+  const filteredBanks = useMemo(() => searchQuestionBanks(banks, query), [banks, query]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError('');
+    setNotice('');
+    try {
+      await action();
+      setBanks(await listQuestionBanks());
+    } catch (err) {
+      setError((err as Error).message || 'Kutubxona bilan ishlashda xatolik yuz berdi');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = () =>
+    runAction(async () => {
+      await saveQuestionBank(bankName, questions);
+      // Rasm fayli yuklanmagan savollar bankda faqat rasm nomi bilan qoladi
+      const withoutImage = questions.filter((q) => q.image && !q.imageBlob).length;
+      if (withoutImage > 0) {
+        setNotice(`${withoutImage} ta savolning rasmi topilmadi - bankda rasmsiz saqlandi`);
+      }
+    });
+
+  const handleMerge = () =>
+    runAction(async () => {
+      const selected = banks.filter((bank) => selectedIds.includes(bank.id));
+      await mergeQuestionBanks(selected, mergeName || selected.map((bank) => bank.name).join(' + '));
+      setSelectedIds([]);
+      setMergeName('');
+    });
+
+  const handleDelete = (bank: QuestionBank) => {
+    if (!window.confirm(`"${bank.name}" banki o'chirilsinmi?`)) return;
+    runAction(async () => {
+      await deleteQuestionBank(bank.id);
+      setSelectedIds((prev) => prev.filter((id) => id !== bank.id));
+    });
+  };
+
+  const handleRename = (bank: QuestionBank) => {
+    const name = window.prompt('Bankning yangi nomi:', bank.name);
+    if (name === null) return;
+    runAction(async () => {
+      await renameQuestionBank(bank, name);
+    });
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((v) => v !== id) : [...prev, id]));
+
+  return (
+    <div className="mb-6 bg-[#3b3950] rounded-lg p-4">
+      <h4 className="text-lg font-medium text-white mb-3 flex items-center">
+        <Library size={20} className="text-blue-400 mr-2" />
+        Savollar kutubxonasi
+      </h4>
+
+      {error && <p className="mb-3 text-sm text-red-300">{error}</p>}
+      {notice && <p className="mb-3 text-sm text-yellow-300">{notice}</p>}
+
+      {questions.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          <input
+            value={bankName}
+            onChange={(e) => setBankName(e.target.value)}
+            placeholder="Bank nomi"
+            className="flex-grow bg-[#2d2b3d] text-white p-2 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <button
+            onClick={handleSave}
+            disabled={isBusy || !bankName.trim()}
+            className="flex items-center bg-purple-600 hover:bg-purple-700 text-white py-1 px-3 rounded-md text-sm transition-colors duration-200 disabled:opacity-50"
+          >
+            <Save size={14} className="mr-1" />
+            Kutubxonaga saqlash ({questions.length} ta savol)
+          </button>
+        </div>
+      )}
+
+      {banks.length === 0 ? (
+        <p className="text-sm text-gray-400">Kutubxona bo'sh. Yuklangan savollarni bank sifatida saqlang.</p>
+      ) : (
+        <>
+          <div className="relative mb-3">
+            <Search size={16} className="absolute left-2 top-2.5 text-gray-400" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Bank nomi, fayl yoki savol matni bo'yicha qidirish"
+              className="w-full bg-[#2d2b3d] text-white p-2 pl-8 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+          </div>
+
+          <ul className="space-y-2 max-h-80 overflow-y-auto">
+            {filteredBanks.map((bank) => (
+              <li key={bank.id} className="bg-[#2d2b3d] rounded-md p-3 flex flex-wrap items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(bank.id)}
+                  onChange={() => toggleSelected(bank.id)}
+                  className="accent-purple-600"
+                  aria-label="Birlashtirish uchun tanlash"
+                />
+                <div className="flex-grow min-w-0">
+                  <p className="text-white font-medium truncate">{bank.name}</p>
+                  <p className="text-xs text-gray-400 truncate">
+                    {bank.questions.length} ta savol
+                    {bank.sourceFiles.length > 0 && ` · ${bank.sourceFiles.join(', ')}`} · {formatDate(bank.updatedAt)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onLoadBank(bank)}
+                  className="flex items-center bg-purple-600 hover:bg-purple-700 text-white py-1 px-2 rounded-md text-xs transition-colors duration-200"
+                >
+                  <FolderOpen size={14} className="mr-1" />
+                  Tanlash
+                </button>
+                <button
+                  onClick={() => handleRename(bank)}
+                  disabled={isBusy}
+                  className="text-gray-400 hover:text-white"
+                  aria-label="Nomini o'zgartirish"
+                >
+                  <Edit size={16} />
+                </button>
+                <button
+                  onClick={() => handleDelete(bank)}
+                  disabled={isBusy}
+                  className="text-gray-400 hover:text-red-400"
+                  aria-label="Bankni o'chirish"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </li>
+            ))}
+            {filteredBanks.length === 0 && <li className="text-sm text-gray-400">Hech narsa topilmadi</li>}
+          </ul>
+
+          {selectedIds.length >= 2 && (
+            <div className="flex flex-wrap gap-2 mt-3">
+              <input
+                value={mergeName}
+                onChange={(e) => setMergeName(e.target.value)}
+                placeholder="Birlashtirilgan bank nomi"
+                className="flex-grow bg-[#2d2b3d] text-white p-2 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+              <button
+                onClick={handleMerge}
+                disabled={isBusy}
+                className="flex items-center bg-green-600 hover:bg-green-700 text-white py-1 px-3 rounded-md text-sm transition-colors duration-200 disabled:opacity-50"
+              >
+                <Merge size={14} className="mr-1" />
+                {selectedIds.length} ta bankni birlashtirish
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default QuestionLibrary;
@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import { List, Search, CheckSquare, X } from 'lucide-react';
+import { Question } from '../types';
+import { isCorrectOption } from '../utils/correctAnswers';
+import { formatQuestionSource, getQuestionKey } from '../utils/questionSource';
+import { normalizeForMatch } from '../utils/textNormalization';
+
+interface QuestionPreviewProps {
+  questions: Question[];
+  selectedKeys: string[]; // qo'lda tanlangan savollar (getQuestionKey), tanlov tartibida
+  onSelectionChange: (keys: string[]) => void;
+}
+
+const ROW_HEIGHT = 64;
+const VIEWPORT_HEIGHT = 400;
+const OVERSCAN = 10;
+
+const toSearchText = (text: string): string => normalizeForMatch(text).toLowerCase();
+
+// Yuklangan savollar ro'yxati: qidiruv, qator oralig'i bo'yicha filtr va yuboriladigan savollarni qo'lda tanlash.
+// Faqat ko'rinib turgan qatorlar chiziladi (virtualizatsiya) - o'n minglab savolli bankda ham sahifa sekinlashmaydi.
+const QuestionPreview: React.FC<QuestionPreviewProps> = ({ questions, selectedKeys, onSelectionChange }) => {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [search, setSearch] = useState('');
+  const [rowFrom, setRowFrom] = useState('');
+  const [rowTo, setRowTo] = useState('');
+
+  // Qidiruv savol matni va variantlar bo'yicha; apostrof turi va katta-kichik harf farq qilmaydi
+  const searchIndex = useMemo(
+    () => questions.map((q) => toSearchText([q.question, ...q.options].join('\n'))),
+    [questions]
+  );
+
+  const filtered = useMemo(() => {
+    const query = toSearchText(search);
+    const from = parseInt(rowFrom) || -Infinity;
+    const to = parseInt(rowTo) || Infinity;
+    return questions.filter(
+      (q, index) => q.rowNumber >= from && q.rowNumber <= to && (!query || searchIndex[index].includes(query))
+    );
+  }, [questions, searchIndex, search, rowFrom, rowTo]);
+
+  const selectedSet = useMemo(() => new Set(selectedKeys), [selectedKeys]);
+
+  const toggleQuestion = (key: string) =>
+    onSelectionChange(selectedSet.has(key) ? selectedKeys.filter((k) => k !== key) : [...selectedKeys, key]);
+
+  const selectFiltered = () =>
+    onSelectionChange([
+      ...selectedKeys,
+      ...filtered.map(getQuestionKey).filter((key) => !selectedSet.has(key)),
+    ]);
+
+  const resetScroll = () => setScrollTop(0);
+
+  const firstIndex = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastIndex = Math.min(filtered.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+  return (
+    <div className="mb-6 bg-[#3b3950] rounded-lg p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h4 className="text-lg font-medium text-white flex items-center">
+          <List size={20} className="text-blue-400 mr-2" />
+          Savollar ro'yxati
+          <span className="ml-2 text-sm text-gray-400 font-normal">
+            {filtered.length === questions.length ? `${questions.length} ta` : `${filtered.length} / ${questions.length} ta`}
+          </span>
+        </h4>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {selectedKeys.length > 0 && <span className="text-purple-300">Tanlangan: {selectedKeys.length} ta</span>}
+          <button
+            onClick={selectFiltered}
+            disabled={filtered.length === 0}
+            className="flex items-center bg-[#2d2b3d] hover:bg-[#4d4b63] text-white py-1 px-2 rounded-md text-xs transition-colors duration-200 disabled:opacity-50"
+          >
+            <CheckSquare size={14} className="mr-1" />
+            Ko'rinayotganlarni tanlash
+          </button>
+          {selectedKeys.length > 0 && (
+            <button
+              onClick={() => onSelectionChange([])}
+              className="flex items-center py-1 px-2 rounded-md text-xs text-gray-300 hover:text-white"
+            >
+              <X size={14} className="mr-1" />
+              Tanlovni tozalash
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search size={16} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              resetScroll();
+            }}
+            placeholder="Savol yoki variant bo'yicha qidirish"
+            className="w-full bg-[#2d2b3d] text-white pl-8 pr-2 py-1 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </div>
+        <label className="flex items-center gap-1 text-gray-300">
+          Qatorlar:
+          <input
+            type="number"
+            min={1}
+            value={rowFrom}
+            onChange={(e) => {
+              setRowFrom(e.target.value);
+              resetScroll();
+            }}
+            placeholder="dan"
+            className="w-20 bg-[#2d2b3d] text-white p-1 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          -
+          <input
+            type="number"
+            min={1}
+            value={rowTo}
+            onChange={(e) => {
+              setRowTo(e.target.value);
+              resetScroll();
+            }}
+            placeholder="gacha"
+            className="w-20 bg-[#2d2b3d] text-white p-1 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </label>
+      </div>
+
+      {selectedKeys.length > 0 && (
+        <p className="text-xs text-gray-400 mb-2">
+          Faqat tanlangan savollar tanlov tartibida yuboriladi - tasodifiy tanlov va sessiya tarkibi qo'llanmaydi
+        </p>
+      )}
+
+      {filtered.length === 0 ? (
+        <p className="text-sm text-gray-400 italic">Savollar topilmadi</p>
+      ) : (
+        <div
+          key={`${search}|${rowFrom}|${rowTo}`}
+          className="overflow-y-auto rounded-md bg-[#2d2b3d]"
+          style={{ height: Math.min(VIEWPORT_HEIGHT, filtered.length * ROW_HEIGHT) }}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        >
+          <div className="relative" style={{ height: filtered.length * ROW_HEIGHT }}>
+            {filtered.slice(firstIndex, lastIndex).map((question, offset) => {
+              const index = firstIndex + offset;
+              const key = getQuestionKey(question);
+              return (
+                <label
+                  key={key}
+                  className={`absolute left-0 right-0 px-3 py-1 border-b border-[#3b3950] text-sm flex items-start cursor-pointer ${
+                    selectedSet.has(key) ? 'bg-purple-900/30' : ''
+                  }`}
+                  style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedSet.has(key)}
+                    onChange={() => toggleQuestion(key)}
+                    className="mt-1 mr-2 accent-purple-600 flex-shrink-0"
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-white truncate">{question.question}</span>
+                      <span className="text-gray-500 text-xs ml-auto flex-shrink-0">{formatQuestionSource(question)}</span>
+                    </div>
+                    <div className="flex gap-1 mt-1 overflow-hidden">
+                      {question.options.map((option, optionIndex) => (
+                        <span
+                          key={optionIndex}
+                          className={`px-2 rounded border text-xs truncate max-w-[12rem] ${
+                            isCorrectOption(question, option)
+                              ? 'border-green-600 text-green-200'
+                              : 'border-[#3b3950] text-gray-400'
+                          }`}
+                        >
+                          {option}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                </label>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionPreview;
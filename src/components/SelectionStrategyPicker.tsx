@@ -0,0 +1,96 @@
+import React from 'react';
+import { Shuffle, RefreshCw } from 'lucide-react';
+import { SelectionStrategy } from '../types';
+import { createSelectionStrategy, SELECTION_MODE_LABELS } from '../utils/questionSelection';
+import { generateSeed } from '../utils/shuffle';
+
+interface SelectionStrategyPickerProps {
+  value: SelectionStrategy;
+  disabledReason?: string; // qo'lda tanlov yoki tarkib ishlatilganda usul qo'llanmaydi
+  countError?: string | null; // tanlov sessiya chegarasidan ko'p savol beradi - yuborib bo'lmaydi
+  onChange: (selection: SelectionStrategy) => void;
+}
+
+const STRATEGY_MODES: SelectionStrategy['mode'][] = ['random', 'seeded', 'sequential', 'rowRange', 'everyKth'];
+
+const NumberField: React.FC<{ label: string; value: number; min: number; onChange: (value: number) => void }> = ({
+  label,
+  value,
+  min,
+  onChange,
+}) => (
+  <label className="flex items-center gap-1 text-sm text-gray-300">
+    {label}
+    <input
+      type="number"
+      min={min}
+      value={value}
+      onChange={(e) => onChange(Math.max(min, parseInt(e.target.value) || min))}
+      className="w-24 bg-[#3b3950] text-white p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+    />
+  </label>
+);
+
+// Sessiya savollarini tanlash usuli: tasodifiy, seed bilan, ketma-ket, qatorlar oralig'i yoki har k-savol
+const SelectionStrategyPicker: React.FC<SelectionStrategyPickerProps> = ({ value, disabledReason, countError, onChange }) => {
+  const disabled = !!disabledReason;
+
+  return (
+    <div>
+      <label htmlFor="selectionMode" className="block text-sm font-medium text-gray-300 mb-2 flex items-center">
+        <Shuffle size={16} className="mr-2" />
+        Savollarni tanlash usuli:
+      </label>
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          id="selectionMode"
+          value={value.mode}
+          disabled={disabled}
+          onChange={(e) => onChange(createSelectionStrategy(e.target.value as SelectionStrategy['mode']))}
+          className="bg-[#3b3950] text-white p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+        >
+          {STRATEGY_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {SELECTION_MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+
+        {!disabled && value.mode === 'seeded' && (
+          <>
+            <NumberField label="Seed:" value={value.seed} min={0} onChange={(seed) => onChange({ ...value, seed })} />
+            <button
+              onClick={() => onChange({ ...value, seed: generateSeed() })}
+              className="flex items-center bg-[#3b3950] hover:bg-[#4d4b63] text-white py-2 px-3 rounded-md text-sm transition-colors duration-200"
+            >
+              <RefreshCw size={14} className="mr-1" />
+              Yangi seed
+            </button>
+          </>
+        )}
+        {!disabled && value.mode === 'sequential' && (
+          <NumberField label="Boshlanish o'rni:" value={value.offset} min={1} onChange={(offset) => onChange({ ...value, offset })} />
+        )}
+        {!disabled && value.mode === 'rowRange' && (
+          <>
+            <NumberField label="Qatordan:" value={value.fromRow} min={1} onChange={(fromRow) => onChange({ ...value, fromRow })} />
+            <NumberField label="gacha:" value={value.toRow} min={1} onChange={(toRow) => onChange({ ...value, toRow })} />
+          </>
+        )}
+        {!disabled && value.mode === 'everyKth' && (
+          <>
+            <NumberField label="Qadam (k):" value={value.step} min={1} onChange={(step) => onChange({ ...value, step })} />
+            <NumberField label="Boshlanish o'rni:" value={value.offset} min={1} onChange={(offset) => onChange({ ...value, offset })} />
+          </>
+        )}
+      </div>
+      <p className="text-xs text-gray-400 mt-1">
+        {disabledReason ||
+          "Usul va seed test boshidagi xabarda ko'rsatiladi - tasodifiy tanlovni shu seed bilan takrorlash mumkin"}
+      </p>
+      {countError && <p className="text-xs text-red-300 mt-1">{countError}</p>}
+    </div>
+  );
+};
+
+export default SelectionStrategyPicker;
@@ -0,0 +1,181 @@
+import React, { useMemo } from 'react';
+import { Layers, Plus, Trash2, AlertTriangle, Check } from 'lucide-react';
+import { Question, QuestionDifficulty, SessionBlueprint, BlueprintRule } from '../types';
+import {
+  BLUEPRINT_DIFFICULTY_LABELS,
+  DIFFICULTY_LABELS,
+  filterBlueprintPool,
+  getBankTags,
+  getBankTopics,
+  getBlueprintQuestionCount,
+  getBlueprintShortages,
+} from '../utils/sessionBlueprint';
+
+interface SessionBlueprintBuilderProps {
+  questions: Question[];
+  blueprint: SessionBlueprint | null;
+  onChange: (blueprint: SessionBlueprint | null) => void;
+}
+
+const DEFAULT_BLUEPRINT: SessionBlueprint = {
+  topics: [],
+  tags: [],
+  rules: [
+    { difficulty: 'easy', count: 5 },
+    { difficulty: 'medium', count: 10 },
+    { difficulty: 'hard', count: 5 },
+  ],
+};
+
+const toggleValue = (values: string[], value: string): string[] =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+// Savollar sessiyasi tarkibi: mavzu/teg filtri va qiyinlik bo'yicha savollar soni
+const SessionBlueprintBuilder: React.FC<SessionBlueprintBuilderProps> = ({ questions, blueprint, onChange }) => {
+  const topics = useMemo(() => getBankTopics(questions), [questions]);
+  const tags = useMemo(() => getBankTags(questions), [questions]);
+  const shortages = useMemo(() => (blueprint ? getBlueprintShortages(questions, blueprint) : []), [questions, blueprint]);
+
+  // Tanlangan mavzu/teglar bo'yicha bankdagi savollar qiyinlik kesimida
+  const available = useMemo(() => {
+    const pool = blueprint ? filterBlueprintPool(questions, blueprint) : questions;
+    return {
+      ...(Object.keys(DIFFICULTY_LABELS) as QuestionDifficulty[]).reduce(
+        (acc, difficulty) => ({ ...acc, [difficulty]: pool.filter((q) => q.difficulty === difficulty).length }),
+        {} as Record<QuestionDifficulty, number>
+      ),
+      any: pool.length,
+    };
+  }, [questions, blueprint]);
+
+  // Bankda metama'lumot bo'lmasa tarkib tuzishdan foyda yo'q
+  if (topics.length === 0 && tags.length === 0 && questions.every((q) => !q.difficulty)) {
+    return null;
+  }
+
+  const updateRule = (index: number, rule: Partial<BlueprintRule>) => {
+    if (!blueprint) return;
+    onChange({ ...blueprint, rules: blueprint.rules.map((r, i) => (i === index ? { ...r, ...rule } : r)) });
+  };
+
+  return (
+    <div className="bg-[#3b3950] rounded-lg p-4">
+      <label htmlFor="useBlueprint" className="flex items-center text-white font-medium">
+        <input
+          id="useBlueprint"
+          type="checkbox"
+          checked={blueprint !== null}
+          onChange={(e) => onChange(e.target.checked ? DEFAULT_BLUEPRINT : null)}
+          className="mr-2 accent-purple-600"
+        />
+        <Layers size={18} className="text-blue-400 mr-2" />
+        Mavzu va qiyinlik bo'yicha tanlash
+      </label>
+
+      {blueprint && (
+        <div className="mt-3 space-y-3 text-sm">
+          {topics.length > 0 && (
+            <div>
+              <p className="text-gray-300 mb-1">Mavzular (hech biri tanlanmasa - barchasi):</p>
+              <div className="flex flex-wrap gap-2">
+                {topics.map((topic) => (
+                  <button
+                    key={topic}
+                    onClick={() => onChange({ ...blueprint, topics: toggleValue(blueprint.topics, topic) })}
+                    className={`py-1 px-3 rounded-md transition-colors duration-200 ${
+                      blueprint.topics.includes(topic) ? 'bg-purple-600 text-white' : 'bg-[#2d2b3d] text-gray-300 hover:bg-[#4d4b63]'
+                    }`}
+                  >
+                    {topic}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {tags.length > 0 && (
+            <div>
+              <p className="text-gray-300 mb-1">Teglar (tanlanganlardan kamida bittasi bo'lishi kerak):</p>
+              <div className="flex flex-wrap gap-2">
+                {tags.map((tag) => (
+                  <button
+                    key={tag}
+                    onClick={() => onChange({ ...blueprint, tags: toggleValue(blueprint.tags, tag) })}
+                    className={`py-1 px-3 rounded-md transition-colors duration-200 ${
+                      blueprint.tags.includes(tag) ? 'bg-purple-600 text-white' : 'bg-[#2d2b3d] text-gray-300 hover:bg-[#4d4b63]'
+                    }`}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {blueprint.rules.map((rule, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={rule.count}
+                  onChange={(e) => updateRule(index, { count: Math.min(Math.max(0, parseInt(e.target.value) || 0), 100) })}
+                  className="w-20 bg-[#2d2b3d] text-white p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  aria-label="Savollar soni"
+                />
+                <span className="text-gray-300">ta</span>
+                <select
+                  value={rule.difficulty}
+                  onChange={(e) => updateRule(index, { difficulty: e.target.value as BlueprintRule['difficulty'] })}
+                  className="bg-[#2d2b3d] text-white p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  {(Object.keys(BLUEPRINT_DIFFICULTY_LABELS) as BlueprintRule['difficulty'][]).map((difficulty) => (
+                    <option key={difficulty} value={difficulty}>
+                      {BLUEPRINT_DIFFICULTY_LABELS[difficulty]} ({available[difficulty]} ta bor)
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => onChange({ ...blueprint, rules: blueprint.rules.filter((_, i) => i !== index) })}
+                  className="text-gray-400 hover:text-red-400"
+                  aria-label="Qoidani o'chirish"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => onChange({ ...blueprint, rules: [...blueprint.rules, { difficulty: 'any', count: 1 }] })}
+              className="flex items-center bg-[#2d2b3d] hover:bg-[#4d4b63] text-white py-1 px-2 rounded-md text-xs transition-colors duration-200"
+            >
+              <Plus size={14} className="mr-1" />
+              Qoida qo'shish
+            </button>
+          </div>
+
+          {shortages.length > 0 ? (
+            <div className="bg-yellow-900/30 border border-yellow-500 text-yellow-200 rounded-md px-3 py-2">
+              <p className="flex items-center font-medium">
+                <AlertTriangle size={16} className="mr-1 flex-shrink-0" />
+                Savollar banki bu tarkibga yetmaydi:
+              </p>
+              <ul className="mt-1 list-disc list-inside">
+                {shortages.map((shortage) => (
+                  <li key={shortage}>{shortage}</li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <p className="flex items-center text-green-300">
+              <Check size={16} className="mr-1" />
+              Jami {getBlueprintQuestionCount(blueprint)} ta savol tanlanadi
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionBlueprintBuilder;
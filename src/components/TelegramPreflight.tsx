@@ -0,0 +1,214 @@
+import React, { useMemo, useState } from 'react';
+import { ShieldCheck, AlertTriangle, Eye, EyeOff, Check } from 'lucide-react';
+import { Question, PollIssueKind, PollIssueStrategy, PollStrategy } from '../types';
+import {
+  applyPollStrategies,
+  buildPollPlan,
+  getPollIssues,
+  questionNumberPrefixLength,
+  resolvePollStrategy,
+  POLL_STRATEGY_LABELS,
+  TELEGRAM_POLL_LIMITS,
+} from '../utils/telegramLimits';
+import { isCorrectOption } from '../utils/correctAnswers';
+import { formatQuestionSource, getQuestionKey } from '../utils/questionSource';
+
+interface TelegramPreflightProps {
+  questions: Question[];
+  strategies: Record<string, PollStrategy>; // kalit - getQuestionKey
+  questionCount: number;
+  confirmed: boolean;
+  onStrategyChange: (key: string, kind: PollIssueKind, strategy: PollIssueStrategy) => void;
+  onConfirm: () => void;
+}
+
+const PAGE_SIZE = 50;
+
+// Savol Telegramda qanday ko'rinishini ko'rsatish: oldindan yuboriladigan xabarlar va poll
+const PollPreview: React.FC<{ question: Question; strategy: PollStrategy; questionCount: number; prefixLength: number }> = ({
+  question,
+  strategy,
+  questionCount,
+  prefixLength,
+}) => {
+  const [prepared] = applyPollStrategies([question], { [getQuestionKey(question)]: strategy }, prefixLength);
+  if (!prepared) {
+    return <p className="text-sm text-gray-400 italic">Bu savol Telegramga yuborilmaydi</p>;
+  }
+
+  const prefix = `${questionCount}/${questionCount}. `;
+  const plan = buildPollPlan(
+    `${prefix}${prepared.question}`,
+    prepared.options,
+    prepared.options.flatMap((option, index) => (isCorrectOption(prepared, option) ? [index] : [])),
+    strategy
+  );
+
+  return (
+    <div className="space-y-2 text-sm">
+      {plan.questionMessage && (
+        <div className="bg-[#17161c] rounded-md p-2 text-gray-300 whitespace-pre-wrap">
+          <span className="text-xs text-gray-500 block mb-1">Xabar</span>
+          Savol: {plan.questionMessage}
+        </div>
+      )}
+      {plan.optionsMessage && (
+        <div className="bg-[#17161c] rounded-md p-2 text-gray-300 whitespace-pre-wrap">
+          <span className="text-xs text-gray-500 block mb-1">Xabar</span>
+          Javob variantlari:{'\n'}
+          {plan.optionsMessage}
+        </div>
+      )}
+      <div className="bg-[#17161c] rounded-md p-2">
+        <span className="text-xs text-gray-500 block mb-1">Poll</span>
+        <p className="text-white mb-2 whitespace-pre-wrap">{plan.question}</p>
+        <ul className="space-y-1">
+          {plan.options.map((option, index) => (
+            <li
+              key={index}
+              className={`px-2 py-1 rounded border ${
+                plan.correctOptionIds.includes(index) ? 'border-green-600 text-green-200' : 'border-[#3b3950] text-gray-300'
+              }`}
+            >
+              {option}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+const TelegramPreflight: React.FC<TelegramPreflightProps> = ({
+  questions,
+  strategies,
+  questionCount,
+  confirmed,
+  onStrategyChange,
+  onConfirm,
+}) => {
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [previewKey, setPreviewKey] = useState<string | null>(null);
+
+  // Tartib raqami ("12/20. ") eng uzun holatda ham savol sig'ishi kerak
+  const prefixLength = questionNumberPrefixLength(questionCount);
+
+  const flagged = useMemo(
+    () =>
+      questions
+        .map((question) => ({ question, key: getQuestionKey(question), issues: getPollIssues(question, prefixLength) }))
+        .filter(({ issues }) => issues.length > 0),
+    [questions, prefixLength]
+  );
+
+  const skippedCount = useMemo(
+    () => questions.length - applyPollStrategies(questions, strategies, prefixLength).length,
+    [questions, strategies, prefixLength]
+  );
+
+  if (flagged.length === 0) return null;
+
+  return (
+    <div className="mb-6 bg-[#3b3950] rounded-lg p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h4 className="text-lg font-medium text-white flex items-center">
+          <AlertTriangle size={20} className="text-yellow-400 mr-2" />
+          Telegram cheklovlari tekshiruvi
+        </h4>
+        <span className="text-sm text-gray-300">
+          {flagged.length} ta savol
+          {skippedCount > 0 && `, ${skippedCount} tasi yuborilmaydi`}
+        </span>
+      </div>
+      <p className="text-xs text-gray-400 mb-3">
+        Poll savoli {TELEGRAM_POLL_LIMITS.question}, variant {TELEGRAM_POLL_LIMITS.option} belgidan oshmasligi, variantlar
+        soni {TELEGRAM_POLL_LIMITS.minOptions}-{TELEGRAM_POLL_LIMITS.maxOptions} orasida bo'lishi kerak. Har bir muammo
+        uchun yechimni tanlang.
+      </p>
+
+      <div className="space-y-2">
+        {flagged.slice(0, visibleCount).map(({ question, key, issues }) => (
+          <div key={key} className="bg-[#2d2b3d] rounded-md p-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="text-white font-medium">{formatQuestionSource(question)}</span>
+              <button
+                onClick={() => setPreviewKey(previewKey === key ? null : key)}
+                className="flex items-center bg-[#3b3950] hover:bg-[#4d4b63] text-white py-1 px-2 rounded-md text-xs transition-colors duration-200"
+              >
+                {previewKey === key ? (
+                  <EyeOff size={14} className="mr-1" />
+                ) : (
+                  <Eye size={14} className="mr-1" />
+                )}
+                Ko'rinishi
+              </button>
+            </div>
+            <p className="text-gray-400 text-sm mt-1 truncate">{question.question}</p>
+
+            <ul className="mt-2 space-y-2">
+              {issues.map((issue) => (
+                <li key={issue.kind} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                  <span className="text-yellow-200">
+                    {issue.message}
+                    {issue.details && <span className="opacity-75"> ({issue.details})</span>}
+                  </span>
+                  <select
+                    value={resolvePollStrategy(issue, strategies[key])}
+                    onChange={(e) => onStrategyChange(key, issue.kind, e.target.value as PollIssueStrategy)}
+                    className="bg-[#17161c] text-white p-1 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    {issue.strategies.map((strategy) => (
+                      <option key={strategy} value={strategy}>
+                        {POLL_STRATEGY_LABELS[strategy]}
+                      </option>
+                    ))}
+                  </select>
+                </li>
+              ))}
+            </ul>
+
+            {previewKey === key && (
+              <div className="mt-3">
+                <PollPreview
+                  question={question}
+                  strategy={strategies[key] || {}}
+                  questionCount={questionCount}
+                  prefixLength={prefixLength}
+                />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {flagged.length > visibleCount && (
+        <button
+          onClick={() => setVisibleCount((prev) => prev + PAGE_SIZE)}
+          className="mt-3 w-full bg-[#2d2b3d] hover:bg-[#4d4b63] text-gray-300 py-2 rounded-md text-sm transition-colors duration-200"
+        >
+          Yana ko'rsatish ({flagged.length - visibleCount} ta savol qoldi)
+        </button>
+      )}
+
+      <button
+        onClick={onConfirm}
+        disabled={confirmed}
+        className="mt-3 w-full flex items-center justify-center bg-green-600 hover:bg-green-700 text-white py-2 px-4 rounded-md text-sm transition-colors duration-200 disabled:opacity-60 disabled:cursor-default"
+      >
+        {confirmed ? (
+          <>
+            <Check size={16} className="mr-2" />
+            Tanlangan yechimlar tasdiqlandi
+          </>
+        ) : (
+          <>
+            <ShieldCheck size={16} className="mr-2" />
+            Yechimlarni tasdiqlash
+          </>
+        )}
+      </button>
+    </div>
+  );
+};
+
+export default TelegramPreflight;
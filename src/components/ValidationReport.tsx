@@ -0,0 +1,249 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, AlertTriangle, Wrench, SkipForward, Edit, Download, Plus, Trash2, RotateCcw } from 'lucide-react';
+import { Question, QuestionDraft, ValidationIssue, ValidationSeverity } from '../types';
+import { questionToDraft, SEVERITY_LABELS } from '../utils/questionValidation';
+
+interface ValidationReportProps {
+  issues: ValidationIssue[];
+  questions: Question[];
+  drafts: QuestionDraft[];
+  onSkipRow: (row: number) => void;
+  // Qayta tekshiruvdan keyin qolgan muammolarni qaytaradi
+  onFixRow: (draft: QuestionDraft) => ValidationIssue[];
+  onDownload: () => void;
+}
+
+const PAGE_SIZE = 50;
+
+const SEVERITY_STYLES: Record<ValidationSeverity, string> = {
+  error: 'bg-red-900/30 border-red-500 text-red-200',
+  warning: 'bg-yellow-900/30 border-yellow-500 text-yellow-200',
+  fix: 'bg-blue-900/30 border-blue-500 text-blue-200',
+};
+
+const SeverityIcon: React.FC<{ severity: ValidationSeverity }> = ({ severity }) => {
+  if (severity === 'error') return <AlertCircle size={16} className="mr-1 flex-shrink-0" />;
+  if (severity === 'warning') return <AlertTriangle size={16} className="mr-1 flex-shrink-0" />;
+  return <Wrench size={16} className="mr-1 flex-shrink-0" />;
+};
+
+const ValidationReport: React.FC<ValidationReportProps> = ({
+  issues,
+  questions,
+  drafts,
+  onSkipRow,
+  onFixRow,
+  onDownload,
+}) => {
+  const [filter, setFilter] = useState<ValidationSeverity | 'all'>('all');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [editDraft, setEditDraft] = useState<QuestionDraft | null>(null);
+
+  const counts = useMemo(
+    () =>
+      issues.reduce(
+        (acc, issue) => ({ ...acc, [issue.severity]: acc[issue.severity] + 1 }),
+        { error: 0, warning: 0, fix: 0 } as Record<ValidationSeverity, number>
+      ),
+    [issues]
+  );
+
+  // Muammolarni qator bo'yicha guruhlash
+  const rows = useMemo(() => {
+    const grouped = new Map<number, ValidationIssue[]>();
+    issues
+      .filter((issue) => filter === 'all' || issue.severity === filter)
+      .forEach((issue) => grouped.set(issue.row, [...(grouped.get(issue.row) || []), issue]));
+    return Array.from(grouped.entries()).sort((a, b) => a[0] - b[0]);
+  }, [issues, filter]);
+
+  if (issues.length === 0) return null;
+
+  const startEditing = (row: number) => {
+    const draft = drafts.find((d) => d.row === row);
+    const question = questions.find((q) => q.rowNumber === row);
+    setEditDraft(draft || (question ? questionToDraft(question) : { row, question: '', correctAnswer: '', options: ['', ''] }));
+  };
+
+  const handleRetry = () => {
+    if (!editDraft) return;
+    const remaining = onFixRow(editDraft);
+    // Xato qolgan bo'lsa tahrirlash oynasi ochiq qoladi
+    if (!remaining.some((issue) => issue.severity === 'error')) {
+      setEditDraft(null);
+    }
+  };
+
+  const updateOption = (index: number, value: string) => {
+    if (!editDraft) return;
+    setEditDraft({ ...editDraft, options: editDraft.options.map((opt, i) => (i === index ? value : opt)) });
+  };
+
+  return (
+    <div className="mb-6 bg-[#3b3950] rounded-lg p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h4 className="text-lg font-medium text-white">Tekshiruv hisoboti</h4>
+        <button
+          onClick={onDownload}
+          className="flex items-center bg-green-600 hover:bg-green-700 text-white py-1 px-3 rounded-md text-sm transition-colors duration-200"
+        >
+          <Download size={16} className="mr-1" />
+          Tuzatilgan Excel
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3 text-sm">
+        {(['all', 'error', 'warning', 'fix'] as const).map((severity) => (
+          <button
+            key={severity}
+            onClick={() => {
+              setFilter(severity);
+              setVisibleCount(PAGE_SIZE);
+            }}
+            className={`py-1 px-3 rounded-md transition-colors duration-200 ${
+              filter === severity ? 'bg-purple-600 text-white' : 'bg-[#2d2b3d] text-gray-300 hover:bg-[#4d4b63]'
+            }`}
+          >
+            {severity === 'all' ? `Barchasi (${issues.length})` : `${SEVERITY_LABELS[severity]} (${counts[severity]})`}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        {rows.slice(0, visibleCount).map(([row, rowIssues]) => (
+          <div key={row} className="bg-[#2d2b3d] rounded-md p-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="text-white font-medium">Qator {row}</span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => onSkipRow(row)}
+                  className="flex items-center bg-[#3b3950] hover:bg-[#4d4b63] text-white py-1 px-2 rounded-md text-xs transition-colors duration-200"
+                >
+                  <SkipForward size={14} className="mr-1" />
+                  O'tkazib yuborish
+                </button>
+                <button
+                  onClick={() => startEditing(row)}
+                  className="flex items-center bg-[#3b3950] hover:bg-[#4d4b63] text-white py-1 px-2 rounded-md text-xs transition-colors duration-200"
+                >
+                  <Edit size={14} className="mr-1" />
+                  Tuzatish
+                </button>
+              </div>
+            </div>
+
+            <ul className="mt-2 space-y-1">
+              {rowIssues.map((issue, index) => (
+                <li
+                  key={index}
+                  className={`border rounded px-2 py-1 text-sm flex items-start ${SEVERITY_STYLES[issue.severity]}`}
+                >
+                  <SeverityIcon severity={issue.severity} />
+                  <span>
+                    {issue.message}
+                    {issue.details && <span className="opacity-75"> ({issue.details})</span>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            {editDraft?.row === row && (
+              <div className="mt-3 space-y-2">
+                <textarea
+                  value={editDraft.question}
+                  onChange={(e) => setEditDraft({ ...editDraft, question: e.target.value })}
+                  placeholder="Savol"
+                  rows={2}
+                  className="w-full bg-[#17161c] text-white p-2 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                <input
+                  value={editDraft.correctAnswer}
+                  onChange={(e) => setEditDraft({ ...editDraft, correctAnswer: e.target.value })}
+                  placeholder="To'g'ri javob (bir nechta bo'lsa ;; bilan ajrating)"
+                  className="w-full bg-[#17161c] text-white p-2 rounded-md text-sm border border-green-700 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                {editDraft.options.map((option, index) => (
+                  <div key={index} className="flex gap-2">
+                    <input
+                      value={option}
+                      onChange={(e) => updateOption(index, e.target.value)}
+                      placeholder="Muqobil javob"
+                      className="flex-grow bg-[#17161c] text-white p-2 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    />
+                    <button
+                      onClick={() => setEditDraft({ ...editDraft, options: editDraft.options.filter((_, i) => i !== index) })}
+                      className="text-gray-400 hover:text-red-400"
+                      aria-label="Variantni o'chirish"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+                <textarea
+                  value={editDraft.explanation || ''}
+                  onChange={(e) => setEditDraft({ ...editDraft, explanation: e.target.value })}
+                  placeholder="Izoh (ixtiyoriy)"
+                  rows={2}
+                  className="w-full bg-[#17161c] text-white p-2 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                  <input
+                    value={editDraft.topic || ''}
+                    onChange={(e) => setEditDraft({ ...editDraft, topic: e.target.value })}
+                    placeholder="Mavzu"
+                    className="bg-[#17161c] text-white p-2 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  />
+                  <input
+                    value={editDraft.difficulty || ''}
+                    onChange={(e) => setEditDraft({ ...editDraft, difficulty: e.target.value })}
+                    placeholder="Qiyinlik (oson, o'rta, qiyin)"
+                    className="bg-[#17161c] text-white p-2 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  />
+                  <input
+                    value={editDraft.tags || ''}
+                    onChange={(e) => setEditDraft({ ...editDraft, tags: e.target.value })}
+                    placeholder="Teglar (vergul bilan)"
+                    className="bg-[#17161c] text-white p-2 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => setEditDraft({ ...editDraft, options: [...editDraft.options, ''] })}
+                    className="flex items-center bg-[#3b3950] hover:bg-[#4d4b63] text-white py-1 px-2 rounded-md text-xs transition-colors duration-200"
+                  >
+                    <Plus size={14} className="mr-1" />
+                    Variant qo'shish
+                  </button>
+                  <button
+                    onClick={handleRetry}
+                    className="flex items-center bg-purple-600 hover:bg-purple-700 text-white py-1 px-2 rounded-md text-xs transition-colors duration-200"
+                  >
+                    <RotateCcw size={14} className="mr-1" />
+                    Qayta tekshirish
+                  </button>
+                  <button
+                    onClick={() => setEditDraft(null)}
+                    className="py-1 px-2 rounded-md text-xs text-gray-300 hover:text-white"
+                  >
+                    Bekor qilish
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {rows.length > visibleCount && (
+        <button
+          onClick={() => setVisibleCount((prev) => prev + PAGE_SIZE)}
+          className="mt-3 w-full bg-[#2d2b3d] hover:bg-[#4d4b63] text-gray-300 py-2 rounded-md text-sm transition-colors duration-200"
+        >
+          Yana ko'rsatish ({rows.length - visibleCount} ta qator qoldi)
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ValidationReport;
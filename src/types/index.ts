@@ -1,8 +1,137 @@
 export interface Question {
   question: string;
-  correctAnswer: string;
+  correctAnswer: string; // Ko'p javobli savolda - birinchi to'g'ri javob
+  correctAnswers?: string[]; // Ko'p javobli savol: barcha to'g'ri javoblar (2 va undan ko'p)
   options: string[];
   rowNumber: number; 
+  sourceFile?: string; // Savol o'qilgan fayl nomi - birlashtirilgan bankda rowNumber shu faylga tegishli
+  explanation?: string; // To'g'ri javob izohi - poll explanation sifatida yuboriladi
+  image?: string; // Rasm fayli nomi - poll oldidan sendPhoto bilan yuboriladi
+  imageBlob?: Blob; // Biriktirilgan rasm - yuborishda va kutubxonada saqlashda
+  pollStrategy?: PollStrategy; // Telegram cheklovlaridan oshgan savolni qanday yuborish
+  duplicateGroup?: string; // Bir xil dublikatlar klasteridagi savollar bitta sessiyaga birga tushmaydi
+  topic?: string; // "Mavzu" ustuni
+  difficulty?: QuestionDifficulty; // "Qiyinlik" ustuni
+  tags?: string[]; // "Teglar" ustuni (vergul bilan ajratilgan)
+}
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+// Sessiya savollarini tanlash usuli (tarkib - blueprint - berilmaganda).
+// O'rinlar (offset) bankdagi tartib bo'yicha 1 dan boshlanadi, qatorlar esa fayldagi qator raqamlari
+export type QuestionSelection =
+  | { mode: 'random' }
+  | { mode: 'seeded'; seed: number } // bir xil seed - bir xil savollar va tartib
+  | { mode: 'sequential'; offset: number }
+  | { mode: 'rowRange'; fromRow: number; toRow: number }
+  | { mode: 'everyKth'; step: number; offset: number }
+  | { mode: 'manual'; keys: string[] }; // qo'lda tanlangan savollar (getQuestionKey kalitlari, tanlov tartibida)
+
+// Sozlamalarda tanlanadigan usullar (qo'lda tanlov savollar ro'yxatidan qilinadi)
+export type SelectionStrategy = Exclude<QuestionSelection, { mode: 'manual' }>;
+
+// Bir-biriga o'xshash (takroriy) savollar guruhi
+export interface DuplicateCluster {
+  id: string; // klasterdagi birinchi savol kaliti
+  questions: Question[];
+  similarity: number; // klasterdagi eng yuqori o'xshashlik (0..1)
+}
+
+// Sessiya tarkibi: "5 ta oson + 10 ta o'rta + 5 ta qiyin, A va C mavzulardan".
+// any - qiyinligidan qat'i nazar (qiyinligi ko'rsatilmagan savollar ham kiradi)
+export interface BlueprintRule {
+  difficulty: QuestionDifficulty | 'any';
+  count: number;
+}
+
+export interface SessionBlueprint {
+  topics: string[]; // bo'sh - barcha mavzular
+  tags: string[]; // bo'sh - teg bo'yicha filtrlanmaydi, aks holda shu teglardan kamida bittasi bo'lishi kerak
+  rules: BlueprintRule[];
+}
+
+// Telegram poll cheklovlariga to'g'ri kelmaydigan holatlar
+export type PollIssueKind = 'question-too-long' | 'option-too-long' | 'too-many-options' | 'too-few-options';
+
+// split - to'liq savol alohida xabarda, truncate - qisqartirish, letters - variantlar xabarda,
+// pollda esa A, B, C..., trim - ortiqcha noto'g'ri variantlarni tashlash, skip - savolni yubormaslik
+export type PollIssueStrategy = 'split' | 'truncate' | 'letters' | 'trim' | 'skip';
+
+export type PollStrategy = Partial<Record<PollIssueKind, PollIssueStrategy>>;
+
+// Ko'p javobli savolni baholash: strict - faqat to'liq to'g'ri tanlov, partial - qisman ball
+export type MultiAnswerScoring = 'strict' | 'partial';
+
+// Savollar yuboriladigan/eksport qilinadigan yozuv: original - fayldagidek
+export type QuestionScript = 'original' | 'cyrillic' | 'latin';
+
+// Faylni o'qishda topilgan xato (qator yoki savol raqami bilan)
+export interface ParseError {
+  row: number;
+  message: string;
+  details?: string;
+}
+
+// error - qator o'tkazib yuborildi, warning - savol qabul qilindi, lekin e'tibor kerak,
+// fix - parser qatorni avtomatik tuzatdi
+export type ValidationSeverity = 'error' | 'warning' | 'fix';
+
+export interface ValidationIssue extends ParseError {
+  severity: ValidationSeverity;
+}
+
+// Qatorning xom ko'rinishi - "tuzatish va qayta tekshirish" uchun
+export interface QuestionDraft {
+  row: number;
+  question: string;
+  correctAnswer: string; // bir nechta to'g'ri javob ";;" bilan ajratiladi
+  options: string[]; // to'g'ri javobdan tashqari variantlar
+  explanation?: string;
+  image?: string;
+  topic?: string;
+  difficulty?: string; // xom qiymat: "oson", "medium", "3" ...
+  tags?: string;
+}
+
+export interface QuestionParseResult {
+  questions: Question[];
+  issues: ValidationIssue[];
+  drafts: QuestionDraft[];
+  images?: Record<string, Blob>; // Fayl ichiga joylashtirilgan rasmlar (nomi -> rasm)
+  warnings?: string[]; // Qatorga bog'liq bo'lmagan ogohlantirishlar (masalan, rasmlarni o'qib bo'lmadi)
+  columnMappingRequest?: ColumnMappingRequest; // Ustunlar aniqlanmadi - foydalanuvchi qo'lda moslashi kerak
+}
+
+// Jadval ustunining vazifasi
+export type ColumnRole =
+  | 'question'
+  | 'correctAnswer'
+  | 'option'
+  | 'explanation'
+  | 'image'
+  | 'topic'
+  | 'difficulty'
+  | 'tags'
+  | 'ignore';
+
+// Ustun indeksi -> vazifasi (sarlavhalar tartibida)
+export type ColumnMapping = ColumnRole[];
+
+// Fayl tuzilmasi (sarlavhalar) -> saqlangan moslash
+export type SavedColumnMappings = Record<string, ColumnMapping>;
+
+export interface ColumnMappingRequest {
+  headers: string[];
+  mapping: ColumnMapping; // avtomatik aniqlangan qism - oynada boshlang'ich qiymat sifatida
+  sampleRow: string[]; // birinchi ma'lumot qatori - ustunni tanib olish uchun
+}
+
+// Katta jadvalni o'qish jarayoni: reading - fayl ochilmoqda, rows - qatorlar tekshirilmoqda
+export interface ParseProgress {
+  stage: 'reading' | 'rows';
+  rowsProcessed: number;
+  totalRows: number;
+  errors: number; // hozirgacha topilgan xatolar soni
 }
 
 export interface TelegramConfig {
@@ -22,4 +151,8 @@ export interface TestResult {
 export interface QuizSettings {
   questionCount: number;
   intervalSeconds: number;
+  showRowNumber: boolean; // Poll izohida savolning fayldagi qator raqamini ko'rsatish
+  multiAnswerScoring: MultiAnswerScoring;
+  script: QuestionScript;
+  selection: SelectionStrategy;
 }
\ No newline at end of file
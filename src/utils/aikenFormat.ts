@@ -0,0 +1,135 @@
+import { Question, ParseError, QuestionParseResult } from '../types';
+import { buildParseResult } from './questionValidation';
+import { readTextFile } from './textEncoding';
+import { isMultiAnswerQuestion } from './correctAnswers';
+import { findMatchingIndex } from './textNormalization';
+
+// Moodle Aiken formati:
+//   Savol matni
+//   A. Birinchi variant
+//   B) Ikkinchi variant
+//   ANSWER: B
+const OPTION_LINE = /^\s*([A-Z])\s*[.)]\s+(.*)$/;
+const ANSWER_LINE = /^\s*ANSWER\s*:\s*([A-Z])\s*$/i;
+
+interface AikenParseResult {
+  questions: Question[];
+  errors: ParseError[];
+}
+
+interface AikenDraft {
+  row: number;
+  questionLines: string[];
+  options: { letter: string; text: string }[];
+}
+
+const finishDraft = (draft: AikenDraft, answerLetter: string): Question | ParseError => {
+  const row = draft.row;
+  const questionText = draft.questionLines.join('\n').trim();
+  const options = draft.options.map((opt) => opt.text.trim());
+  const correct = draft.options.find((opt) => opt.letter === answerLetter.toUpperCase());
+
+  if (!questionText) return { row, message: "Savol bo'sh" };
+  if (options.some((opt) => !opt)) return { row, message: "Javob varianti bo'sh" };
+  if (new Set(options).size !== options.length) return { row, message: 'Takrorlangan javob varianti' };
+  if (options.length < 2) return { row, message: 'Kamida 2 ta javob varianti kerak' };
+  if (!correct) {
+    return { row, message: "To'g'ri javob variantlar orasida topilmadi", details: `ANSWER: ${answerLetter}` };
+  }
+
+  return { question: questionText, correctAnswer: correct.text.trim(), options, rowNumber: row };
+};
+
+export const parseAikenText = (text: string): AikenParseResult => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const questions: Question[] = [];
+  const errors: ParseError[] = [];
+  let draft: AikenDraft | null = null;
+
+  for (const [index, line] of lines.entries()) {
+    const lineNumber = index + 1;
+    if (!line.trim()) continue;
+
+    const answerMatch = ANSWER_LINE.exec(line);
+    if (answerMatch) {
+      if (!draft) {
+        errors.push({ row: lineNumber, message: 'Savolsiz ANSWER qatori' });
+        continue;
+      }
+      const result = finishDraft(draft, answerMatch[1]);
+      if ('message' in result) {
+        errors.push(result);
+      } else {
+        questions.push(result);
+      }
+      draft = null;
+      continue;
+    }
+
+    const optionMatch = OPTION_LINE.exec(line);
+    if (optionMatch && draft && draft.questionLines.length > 0) {
+      draft.options.push({ letter: optionMatch[1], text: optionMatch[2] });
+      continue;
+    }
+
+    // Variantlardan keyin yangi matn kelsa - oldingi savolda ANSWER qatori yo'q
+    if (draft && draft.options.length > 0) {
+      errors.push({ row: draft.row, message: 'ANSWER qatori topilmadi' });
+      draft = null;
+    }
+    if (!draft) {
+      draft = { row: lineNumber, questionLines: [], options: [] };
+    }
+    draft.questionLines.push(line.trim());
+  }
+
+  if (draft) {
+    errors.push({ row: draft.row, message: 'ANSWER qatori topilmadi' });
+  }
+
+  return { questions, errors };
+};
+
+export const parseAikenFile = async (file: File): Promise<QuestionParseResult> => {
+  try {
+    // Check file size (max 10MB)
+    if (file.size > 10 * 1024 * 1024) {
+      throw new Error("Fayl hajmi 10MB dan katta bo'lmasligi kerak");
+    }
+
+    const { questions, errors } = parseAikenText((await readTextFile(file)).text);
+
+    if (questions.length === 0 && errors.length === 0) {
+      throw new Error('Aiken faylida savollar topilmadi');
+    }
+
+    return buildParseResult(questions, errors);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Aiken faylini o'qishda xato";
+    console.error('Aiken parser xatosi:', errorMessage);
+    throw new Error(errorMessage);
+  }
+};
+
+// Aiken faqat bitta to'g'ri javobni qo'llaydi - ko'p javobli savollar eksport qilinmaydi
+export const isAikenUnsupported = (question: Question): boolean => isMultiAnswerQuestion(question);
+
+// Aiken formatida savol va variantlar bitta qatorda bo'lishi kerak, variantlar soni 26 tagacha
+export const exportQuestionsToAiken = (questions: Question[]): Blob => {
+  const singleLine = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+  const content = questions
+    .filter((q) => !isAikenUnsupported(q))
+    .map((q) => {
+      const options = q.options.slice(0, 26);
+      const letter = (index: number) => String.fromCharCode(65 + index);
+      return [
+        singleLine(q.question),
+        ...options.map((opt, index) => `${letter(index)}. ${singleLine(opt)}`),
+        `ANSWER: ${letter(findMatchingIndex(options, q.correctAnswer))}`,
+      ].join('\n');
+    })
+    .join('\n\n');
+
+  return new Blob([content, '\n'], { type: 'text/plain;charset=utf-8' });
+};
@@ -0,0 +1,110 @@
+import { ColumnMapping, ColumnRole, SavedColumnMappings } from '../types';
+
+// Jadval sarlavhalarini o'zbek (lotin/kirill), rus va ingliz tillarida tanib olish.
+// Aniqlab bo'lmasa foydalanuvchi ustunlarni qo'lda moslaydi, moslash esa fayl tuzilmasi bo'yicha eslab qolinadi.
+
+const STORAGE_KEY = 'columnMappings';
+
+export const COLUMN_ROLE_LABELS: Record<ColumnRole, string> = {
+  question: 'Savol',
+  correctAnswer: "To'g'ri javob",
+  option: 'Muqobil javob',
+  explanation: 'Izoh',
+  image: 'Rasm',
+  topic: 'Mavzu',
+  difficulty: 'Qiyinlik',
+  tags: 'Teglar',
+  ignore: "E'tiborsiz qoldirish",
+};
+
+// Bitta ustunda faqat bitta bo'lishi mumkin bo'lgan vazifalar (takrorlanganda birinchisi olinadi)
+const SINGLE_COLUMN_ROLES: ColumnRole[] = ['question', 'explanation', 'image', 'topic', 'difficulty', 'tags'];
+
+// Tekshirish tartibi muhim: "noto'g'ri javob" "to'g'ri" ni, "savol rasmi" esa "savol" ni ham o'z ichiga oladi
+const HEADER_PATTERNS: { role: ColumnRole; patterns: RegExp[] }[] = [
+  { role: 'option', patterns: [/muqobil/, /noto'g'ri/, /notog'?ri/, /incorrect/, /wrong/, /distractor/, /неправильн/, /неверн/, /муқобил/, /мукобил/, /нотўғри/] },
+  { role: 'correctAnswer', patterns: [/to'g'ri/, /tog'?ri/, /correct/, /правильн/, /верн/, /тўғри/, /тугри/] },
+  { role: 'explanation', patterns: [/izoh/, /explanation/, /поясн/, /объясн/, /изоҳ/, /изох/] },
+  { role: 'image', patterns: [/rasm/, /image/, /picture/, /изображ/, /картин/, /расм/] },
+  { role: 'topic', patterns: [/mavzu/, /topic/, /^тема/, /мавзу/] },
+  { role: 'difficulty', patterns: [/qiyinlik/, /difficulty/, /сложност/, /қийинлик/, /кийинлик/] },
+  // "Kategoriya" ham "teg" ni o'z ichiga oladi - boshidan tekshiramiz
+  { role: 'tags', patterns: [/^teg/, /^tag/, /^тег/] },
+  { role: 'question', patterns: [/savol/, /question/, /вопрос/, /савол/] },
+  { role: 'option', patterns: [/option/, /variant/, /вариант/] },
+];
+
+// Umumiy "Javob"/"Answer"/"Ответ" ustunlari: to'g'ri javob ustuni topilmasa birinchisi to'g'ri javob bo'ladi
+const GENERIC_ANSWER_PATTERNS = [/javob/, /answer/, /ответ/, /жавоб/];
+
+// Apostrof turlari (‘ ’ ʻ ʼ ` ´) bitta ko'rinishga keltiriladi
+export const normalizeHeader = (header: string): string =>
+  header
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[‘’ʻʼ`´′]/g, "'")
+    .replace(/ё/g, 'е')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const detectHeaderRole = (header: string): ColumnRole | 'answer' => {
+  const normalized = normalizeHeader(header);
+  if (!normalized) return 'ignore';
+  const match = HEADER_PATTERNS.find(({ patterns }) => patterns.some((pattern) => pattern.test(normalized)));
+  if (match) return match.role;
+  return GENERIC_ANSWER_PATTERNS.some((pattern) => pattern.test(normalized)) ? 'answer' : 'ignore';
+};
+
+export const detectColumnMapping = (headers: string[]): ColumnMapping => {
+  const detected = headers.map(detectHeaderRole);
+  const hasCorrectColumn = detected.includes('correctAnswer');
+  let genericAnswerSeen = false;
+
+  return normalizeColumnMapping(
+    detected.map((role) => {
+      if (role !== 'answer') return role;
+      if (!hasCorrectColumn && !genericAnswerSeen) {
+        genericAnswerSeen = true;
+        return 'correctAnswer';
+      }
+      return 'option';
+    })
+  );
+};
+
+// Yakka vazifalarning takrorlarini e'tiborsiz qoldirish
+export const normalizeColumnMapping = (mapping: ColumnMapping): ColumnMapping =>
+  mapping.map((role, index) =>
+    SINGLE_COLUMN_ROLES.includes(role) && mapping.indexOf(role) !== index ? 'ignore' : role
+  );
+
+export const isCompleteColumnMapping = (mapping: ColumnMapping): boolean =>
+  mapping.includes('question') && mapping.includes('correctAnswer') && mapping.includes('option');
+
+// Fayl tuzilmasi kaliti: bir xil sarlavhali fayllar bir xil moslashdan foydalanadi
+export const getColumnLayoutKey = (headers: string[]): string => headers.map(normalizeHeader).join('|');
+
+// Saqlangan moslash sarlavhalar soniga to'g'ri kelsa ishlatiladi
+export const findSavedColumnMapping = (
+  headers: string[],
+  savedMappings: SavedColumnMappings
+): ColumnMapping | undefined => {
+  const saved = savedMappings[getColumnLayoutKey(headers)];
+  return saved && saved.length === headers.length ? saved : undefined;
+};
+
+export const loadSavedColumnMappings = (): SavedColumnMappings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Saqlangan ustun moslashlarini o\'qishda xato:', error);
+    return {};
+  }
+};
+
+export const saveColumnMapping = (headers: string[], mapping: ColumnMapping): SavedColumnMappings => {
+  const mappings = { ...loadSavedColumnMappings(), [getColumnLayoutKey(headers)]: normalizeColumnMapping(mapping) };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+  return mappings;
+};
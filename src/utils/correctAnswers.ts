@@ -0,0 +1,56 @@
+import { Question, MultiAnswerScoring } from '../types';
+import { cleanText, normalizeForMatch, textsMatch } from './textNormalization';
+
+// Bitta katakda bir nechta to'g'ri javob: "Toshkent;;Samarqand"
+export const MULTI_ANSWER_DELIMITER = ';;';
+
+// Savolning barcha to'g'ri javoblari (oddiy savolda - bitta)
+export const getCorrectAnswers = (question: Question): string[] =>
+  question.correctAnswers && question.correctAnswers.length > 0 ? question.correctAnswers : [question.correctAnswer];
+
+export const isMultiAnswerQuestion = (question: Question): boolean => getCorrectAnswers(question).length > 1;
+
+// Apostrof turi yoki ko'rinmas belgilar bilan farq qiladigan variant ham to'g'ri javob hisoblanadi
+export const isCorrectOption = (question: Question, option: string): boolean =>
+  getCorrectAnswers(question).some((answer) => textsMatch(answer, option));
+
+// Katak qiymatini to'g'ri javoblarga ajratish: bo'shlari tashlanadi, takrorlari bitta qilinadi
+export const splitCorrectAnswers = (value: string): string[] => {
+  const answers = new Map<string, string>();
+  value
+    .split(MULTI_ANSWER_DELIMITER)
+    .map(cleanText)
+    .filter((part) => part.length > 0)
+    .forEach((part) => {
+      if (!answers.has(normalizeForMatch(part))) answers.set(normalizeForMatch(part), part);
+    });
+  return Array.from(answers.values());
+};
+
+export const joinCorrectAnswers = (question: Question): string =>
+  getCorrectAnswers(question).join(MULTI_ANSWER_DELIMITER);
+
+// To'g'ri javoblar ro'yxatidan Question maydonlarini yasash
+export const correctAnswerFields = (answers: string[]): Pick<Question, 'correctAnswer' | 'correctAnswers'> =>
+  answers.length > 1 ? { correctAnswer: answers[0], correctAnswers: answers } : { correctAnswer: answers[0] };
+
+export const MULTI_ANSWER_SCORING_LABELS: Record<MultiAnswerScoring, string> = {
+  strict: "Faqat barcha to'g'ri javoblar tanlansa",
+  partial: "Qisman ball (noto'g'ri tanlov ball kamaytiradi)",
+};
+
+// Poll javobini baholash: 1 - to'liq to'g'ri, 0 - noto'g'ri, oraliq qiymat - qisman ball
+export const scorePollAnswer = (
+  selectedIds: number[],
+  correctIds: number[],
+  scoring: MultiAnswerScoring = 'strict'
+): number => {
+  const selected = new Set(selectedIds);
+  const hits = correctIds.filter((id) => selected.has(id)).length;
+  const misses = selected.size - hits;
+
+  if (scoring === 'partial' && correctIds.length > 1) {
+    return Math.max(0, (hits - misses) / correctIds.length);
+  }
+  return hits === correctIds.length && misses === 0 ? 1 : 0;
+};
@@ -0,0 +1,123 @@
+import { Question, QuestionParseResult, SavedColumnMappings } from '../types';
+import { parseQuestionRows, questionsToRows } from './excelParser';
+import { readTextFile } from './textEncoding';
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+const CANDIDATE_DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+
+// Qo'shtirnoq ichidagi belgilarni hisobga olmagan holda ajratuvchini sanash
+const countOutsideQuotes = (line: string, delimiter: string): number => {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === delimiter && !inQuotes) {
+      count++;
+    }
+  }
+  return count;
+};
+
+// Ajratuvchini sarlavha qatori bo'yicha aniqlash: qaysi belgi ko'p uchrasa, o'sha
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const headerLine = text.split(/\r\n|\r|\n/).find((line) => line.trim().length > 0) || '';
+  let best: CsvDelimiter = ',';
+  let bestCount = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const count = countOutsideQuotes(headerLine, delimiter);
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+// RFC 4180 bo'yicha CSV ni qatorlarga ajratish (qo'shtirnoqli maydonlar ichida
+// ajratuvchi, "" va yangi qator bo'lishi mumkin)
+export const parseCsvRows = (text: string, delimiter: CsvDelimiter): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // To'liq bo'sh qatorlarni bo'sh massiv sifatida qoldiramiz - qator raqamlari siljimasligi uchun
+  return rows.map((r) => (r.every((cell) => cell.trim() === '') ? [] : r));
+};
+
+export const parseCsvFile = async (file: File, savedMappings: SavedColumnMappings = {}): Promise<QuestionParseResult> => {
+  try {
+    // Check file size (max 10MB)
+    if (file.size > 10 * 1024 * 1024) {
+      throw new Error("Fayl hajmi 10MB dan katta bo'lmasligi kerak");
+    }
+
+    const { text, encoding } = await readTextFile(file);
+    const delimiter = file.name.toLowerCase().endsWith('.tsv') ? '\t' : detectDelimiter(text);
+    const rows = parseCsvRows(text, delimiter);
+
+    console.log('CSV fayl:', { encoding, delimiter: delimiter === '\t' ? 'TAB' : delimiter });
+
+    const result = parseQuestionRows(rows, 'CSV', savedMappings);
+    console.log('Yuklangan savollar:', result.questions);
+    return result;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "CSV faylini o'qishda xato";
+    console.error('CSV parser xatosi:', errorMessage);
+    throw new Error(errorMessage);
+  }
+};
+
+const escapeCsvField = (value: string, delimiter: CsvDelimiter): string =>
+  /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Savollarni parseCsvFile qayta o'qiy oladigan CSV/TSV ko'rinishida eksport qilish
+export const exportQuestionsToCsv = (questions: Question[], delimiter: CsvDelimiter = ','): Blob => {
+  const content = questionsToRows(questions)
+    .map((row) => row.map((cell) => escapeCsvField(cell, delimiter)).join(delimiter))
+    .join('\r\n');
+
+  // BOM - Excel UTF-8 ni to'g'ri taniy olishi uchun
+  const mimeType = delimiter === '\t' ? 'text/tab-separated-values' : 'text/csv';
+  return new Blob(['\uFEFF', content, '\r\n'], { type: `${mimeType};charset=utf-8` });
+};
@@ -0,0 +1,42 @@
+// Sudrab tashlangan fayl va papkalarni bitta ro'yxatga yig'ish.
+// Papka tashlanganda brauzer faqat uning "entry"sini beradi - ichidagi fayllarni o'zimiz o'qiymiz.
+
+const readEntryFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries bir chaqiruvda hammasini qaytarmasligi mumkin - bo'sh ro'yxat kelguncha o'qiymiz
+const readDirectoryEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const collectEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return [await readEntryFile(entry as FileSystemFileEntry)];
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectoryEntries(entry as FileSystemDirectoryEntry);
+    const nested = await Promise.all(children.map(collectEntryFiles));
+    return nested.flat();
+  }
+  return [];
+};
+
+export const readDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items || [])
+    .map((item) => (item.kind === 'file' ? item.webkitGetAsEntry() : null))
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  // Entry API qo'llab-quvvatlanmasa - oddiy fayllar ro'yxati
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files || []);
+  }
+
+  const files = await Promise.all(entries.map(collectEntryFiles));
+  return files.flat();
+};
@@ -0,0 +1,197 @@
+import { DuplicateCluster, Question } from '../types';
+import { getQuestionKey } from './questionSource';
+import { normalizeForMatch } from './textNormalization';
+
+// Birlashtirilgan banklarda bir savol so'zlari biroz o'zgartirilib bir necha marta uchraydi.
+// O'xshashlik savol va variantlar matnining harf uchliklari (trigram) bo'yicha Dice koeffitsienti bilan o'lchanadi.
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.85;
+export const MIN_DUPLICATE_THRESHOLD = 0.6;
+
+// Katta-kichik harf, tinish belgilari va variantlar tartibi hisobga olinmaydi
+const buildSignature = (question: Pick<Question, 'question' | 'options'>): string =>
+  [question.question, ...[...question.options].sort()]
+    .map((text) =>
+      normalizeForMatch(text)
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim()
+    )
+    .join(' | ');
+
+const buildTrigrams = (text: string): Set<string> => {
+  const padded = ` ${text} `;
+  const trigrams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    trigrams.add(padded.slice(i, i + 3));
+  }
+  return trigrams;
+};
+
+const diceSimilarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) return 1;
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  smaller.forEach((trigram) => {
+    if (larger.has(trigram)) shared++;
+  });
+  return (2 * shared) / (a.size + b.size);
+};
+
+// Ikki savol o'xshashligi (0..1)
+export const questionSimilarity = (a: Question, b: Question): number =>
+  diceSimilarity(buildTrigrams(buildSignature(a)), buildTrigrams(buildSignature(b)));
+
+// Klaster savollar ro'yxatidagi indekslar bilan: Web Worker shu ko'rinishni qaytaradi
+export interface DuplicateIndexCluster {
+  indices: number[];
+  similarity: number;
+}
+
+// Trigramlarni kamyoblik bo'yicha raqamlash (kamyobi kichik raqam) va har bir savol uchun o'sish tartibida saralash.
+// Prefiks filtri shu tartibga tayanadi, saralangan massivlarda umumiy trigramlar esa tez sanaladi.
+const toRarityOrderedIds = (sets: Set<string>[]): Int32Array[] => {
+  const frequency = new Map<string, number>();
+  sets.forEach((set) => set.forEach((trigram) => frequency.set(trigram, (frequency.get(trigram) || 0) + 1)));
+  const ids = new Map<string, number>();
+  Array.from(frequency.keys())
+    .sort((a, b) => frequency.get(a)! - frequency.get(b)! || (a < b ? -1 : a > b ? 1 : 0))
+    .forEach((trigram, id) => ids.set(trigram, id));
+  return sets.map((set) => Int32Array.from(Array.from(set, (trigram) => ids.get(trigram)!)).sort());
+};
+
+// Umumiy trigramlar soni; required ga yetishi mumkin bo'lmay qolsa sanash to'xtatiladi (-1)
+const countShared = (a: Int32Array, b: Int32Array, required: number): number => {
+  let shared = 0;
+  for (let i = 0, j = 0; i < a.length && j < b.length; ) {
+    if (shared + Math.min(a.length - i, b.length - j) < required) return -1;
+    if (a[i] === b[j]) {
+      shared++;
+      i++;
+      j++;
+    } else if (a[i] < b[j]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return shared;
+};
+
+// O'xshashligi threshold dan past bo'lmagan savollar klasterlarga birlashtiriladi (tranzitiv: A~B va B~C bo'lsa A, B, C bitta klaster).
+// Hamma juftlik solishtirilmaydi: Dice >= t bo'lsa Jaccard >= t/(2-t), demak ikki savolning eng kamyob trigramlaridan
+// iborat prefikslari kamida bitta umumiy trigramga ega (prefiks filtri, PPJoin). Savollar trigramlar soni bo'yicha
+// o'sish tartibida ko'riladi - indeksga undan ham qisqa prefiks yoziladi. Faqat nomzodlar solishtiriladi, natija o'zgarmaydi.
+export const findDuplicateIndexClusters = (
+  questions: Pick<Question, 'question' | 'options'>[],
+  threshold: number = DEFAULT_DUPLICATE_THRESHOLD
+): DuplicateIndexCluster[] => {
+  const trigrams = toRarityOrderedIds(questions.map((question) => buildTrigrams(buildSignature(question))));
+  const jaccard = threshold / (2 - threshold);
+  const indexJaccard = (2 * jaccard) / (1 + jaccard);
+  // Suzuvchi nuqta xatosi prefiksni qisqartirib yubormasligi uchun kichik zaxira
+  const prefixLength = (size: number, similarity: number) => size - Math.ceil(similarity * size - 1e-9) + 1;
+  const bySize = questions.map((_, index) => index).sort((a, b) => trigrams[a].length - trigrams[b].length || a - b);
+  const prefixIndex = new Map<number, number[]>();
+  const lastSeen = new Int32Array(questions.length).fill(-1);
+  const parent = questions.map((_, index) => index);
+  const bestSimilarity = new Map<number, number>();
+
+  const findRoot = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  bySize.forEach((j) => {
+    const sizeB = trigrams[j].length;
+    trigrams[j].subarray(0, prefixLength(sizeB, jaccard)).forEach((trigram) => {
+      prefixIndex.get(trigram)?.forEach((i) => {
+        if (lastSeen[i] === j) return;
+        lastSeen[i] = j;
+
+        const sizeA = trigrams[i].length;
+        // Uzunliklar juda farq qilsa o'xshashlik chegaraga yetmaydi - hisoblamaymiz
+        if ((2 * Math.min(sizeA, sizeB)) / (sizeA + sizeB) < threshold) return;
+
+        const shared = countShared(trigrams[i], trigrams[j], Math.ceil((threshold * (sizeA + sizeB)) / 2 - 1e-9));
+        const similarity = sizeA + sizeB === 0 ? 1 : (2 * shared) / (sizeA + sizeB);
+        if (similarity < threshold) return;
+
+        const rootA = findRoot(i);
+        const rootB = findRoot(j);
+        const root = Math.min(rootA, rootB);
+        parent[Math.max(rootA, rootB)] = root;
+        bestSimilarity.set(
+          root,
+          Math.max(similarity, bestSimilarity.get(rootA) || 0, bestSimilarity.get(rootB) || 0)
+        );
+      });
+    });
+
+    trigrams[j].subarray(0, prefixLength(sizeB, indexJaccard)).forEach((trigram) => {
+      const list = prefixIndex.get(trigram);
+      if (list) list.push(j);
+      else prefixIndex.set(trigram, [j]);
+    });
+  });
+
+  const groups = new Map<number, number[]>();
+  questions.forEach((_, index) => {
+    const root = findRoot(index);
+    groups.set(root, [...(groups.get(root) || []), index]);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, indices]) => indices.length > 1)
+    .map(([root, indices]) => ({ indices, similarity: bestSimilarity.get(root) || threshold }));
+};
+
+export const toDuplicateClusters = (questions: Question[], clusters: DuplicateIndexCluster[]): DuplicateCluster[] =>
+  clusters.map(({ indices, similarity }) => {
+    const members = indices.map((index) => questions[index]);
+    return { id: getQuestionKey(members[0]), questions: members, similarity };
+  });
+
+export const findDuplicateClusters = (
+  questions: Question[],
+  threshold: number = DEFAULT_DUPLICATE_THRESHOLD
+): DuplicateCluster[] => toDuplicateClusters(questions, findDuplicateIndexClusters(questions, threshold));
+
+// Klasterdagi savollarga duplicateGroup belgisini qo'yish (savollar kaliti bo'yicha)
+export const applyDuplicateGroups = (questions: Question[], clusters: DuplicateCluster[]): Question[] => {
+  if (clusters.length === 0) return questions;
+  const groups = new Map<string, string>();
+  clusters.forEach((cluster) => cluster.questions.forEach((q) => groups.set(getQuestionKey(q), cluster.id)));
+
+  return questions.map((question) => {
+    const group = groups.get(getQuestionKey(question));
+    return group ? { ...question, duplicateGroup: group } : question;
+  });
+};
+
+// Har bir dublikatlar klasteridan faqat birinchi uchragan savol qoldiriladi -
+// sessiya hech qachon bitta klasterdan ikki savolni o'z ichiga olmaydi
+export const collapseDuplicateGroups = (questions: Question[]): Question[] => {
+  const seen = new Set<string>();
+  return questions.filter((question) => {
+    if (!question.duplicateGroup) return true;
+    if (seen.has(question.duplicateGroup)) return false;
+    seen.add(question.duplicateGroup);
+    return true;
+  });
+};
+
+// Birlashtirish: tanlangan savol qoladi, boshqalaridagi teglar qo'shiladi, bo'sh izoh/mavzu/qiyinlik to'ldiriladi
+export const mergeDuplicateQuestions = (kept: Question, others: Question[]): Question => {
+  const tags = Array.from(new Set([...(kept.tags || []), ...others.flatMap((q) => q.tags || [])]));
+  return {
+    ...kept,
+    explanation: kept.explanation || others.find((q) => q.explanation)?.explanation,
+    topic: kept.topic || others.find((q) => q.topic)?.topic,
+    difficulty: kept.difficulty || others.find((q) => q.difficulty)?.difficulty,
+    tags: tags.length > 0 ? tags : undefined,
+  };
+};
@@ -0,0 +1,76 @@
+import { DuplicateCluster, Question } from '../types';
+import { DuplicateIndexCluster, findDuplicateClusters, toDuplicateClusters } from './duplicateDetection';
+
+// Katta bankda takroriy savollarni qidirish sekin - u Web Worker'da bajariladi, sahifa qotmaydi.
+// Worker'ga faqat savol va variantlar matni yuboriladi, natija esa savollar indekslari bilan qaytadi.
+// Worker bo'lmagan muhitda oddiy findDuplicateClusters ishlatiladi.
+
+export const DUPLICATE_SEARCH_CANCELLED_MESSAGE = "Takroriy savollarni qidirish bekor qilindi";
+
+export interface DuplicateWorkerRequest {
+  questions: Pick<Question, 'question' | 'options'>[];
+  threshold: number;
+}
+
+export type DuplicateWorkerResponse =
+  | { type: 'result'; clusters: DuplicateIndexCluster[] }
+  | { type: 'error'; message: string };
+
+export const findDuplicateClustersInWorker = async (
+  questions: Question[],
+  threshold: number,
+  signal?: AbortSignal
+): Promise<DuplicateCluster[]> => {
+  if (typeof Worker === 'undefined') {
+    return findDuplicateClusters(questions, threshold);
+  }
+
+  try {
+    if (signal?.aborted) {
+      throw new Error(DUPLICATE_SEARCH_CANCELLED_MESSAGE);
+    }
+
+    const worker = new Worker(new URL('../workers/duplicateDetection.worker.ts', import.meta.url), { type: 'module' });
+
+    const clusters = await new Promise<DuplicateIndexCluster[]>((resolve, reject) => {
+      // Savollar yoki chegara o'zgarganda eski qidiruv darhol to'xtatiladi
+      const handleAbort = () => {
+        worker.terminate();
+        reject(new Error(DUPLICATE_SEARCH_CANCELLED_MESSAGE));
+      };
+      const finish = () => {
+        signal?.removeEventListener('abort', handleAbort);
+        worker.terminate();
+      };
+
+      signal?.addEventListener('abort', handleAbort);
+      worker.onmessage = (event: MessageEvent<DuplicateWorkerResponse>) => {
+        const message = event.data;
+        finish();
+        if (message.type === 'result') {
+          resolve(message.clusters);
+        } else {
+          reject(new Error(message.message));
+        }
+      };
+      worker.onerror = (event) => {
+        finish();
+        reject(new Error(event.message || "Takroriy savollarni qidirishda xato"));
+      };
+
+      const request: DuplicateWorkerRequest = {
+        questions: questions.map(({ question, options }) => ({ question, options })),
+        threshold,
+      };
+      worker.postMessage(request);
+    });
+
+    return toDuplicateClusters(questions, clusters);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Takroriy savollarni qidirishda xato";
+    if (errorMessage !== DUPLICATE_SEARCH_CANCELLED_MESSAGE) {
+      console.error('Takroriy savollar qidiruvi xatosi:', errorMessage);
+    }
+    throw new Error(errorMessage);
+  }
+};
@@ -1,120 +1,206 @@
 import * as XLSX from 'xlsx';
-import { Question } from '../types';
+import {
+  Question,
+  QuestionDraft,
+  QuestionParseResult,
+  ValidationIssue,
+  ColumnRole,
+  SavedColumnMappings,
+  ParseProgress,
+} from '../types';
 import { UserResult } from './telegramService';
+import { validateQuestionDraft, SEVERITY_LABELS } from './questionValidation';
+import { isCorrectOption, joinCorrectAnswers, MULTI_ANSWER_DELIMITER } from './correctAnswers';
+import { extractXlsxImages } from './questionImages';
+import { DIFFICULTY_LABELS } from './sessionBlueprint';
+import { detectColumnMapping, findSavedColumnMapping, isCompleteColumnMapping } from './columnMapping';
 
-// Xatolarni yig'ish uchun interfeys
-interface ParseError {
-  row: number;
-  message: string;
-  details?: string;
-}
+const PROGRESS_INTERVAL = 500;
 
-export const parseExcelFile = async (file: File): Promise<Question[]> => {
-  try {
-    // Check file size (max 10MB)
-    if (file.size > 10 * 1024 * 1024) {
-      throw new Error("Fayl hajmi 10MB dan katta bo'lmasligi kerak");
-    }
+// Jadval qatorlaridan (birinchi qator - sarlavhalar) savollarni yig'ish.
+// Excel va CSV/TSV importlari shu funksiyadan foydalanadi. Ustunlar sarlavhalar bo'yicha
+// (o'zbek, rus, ingliz tillarida) aniqlanadi yoki shu tuzilma uchun saqlangan moslashdan olinadi.
+// onProgress har PROGRESS_INTERVAL qatorda chaqiriladi (Web Worker'dan jarayonni ko'rsatish uchun).
+export const parseQuestionRows = (
+  jsonData: (string | number)[][],
+  sourceName: string = 'Excel',
+  savedMappings: SavedColumnMappings = {},
+  onProgress?: (progress: ParseProgress) => void
+): QuestionParseResult => {
+  // Validate data
+  if (jsonData.length === 0) {
+    throw new Error(`${sourceName} faylida ma'lumotlar topilmadi`);
+  }
 
-    const arrayBuffer = await file.arrayBuffer();
-    const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-    const sheetName = workbook.SheetNames[0];
-    const sheet = workbook.Sheets[sheetName];
+  // Ustun nomlarini olish
+  const headers = Array.from(jsonData[0] || [], (h) => (h === undefined || h === null ? '' : String(h)));
+  const questions: Question[] = [];
+  const issues: ValidationIssue[] = [];
+  const drafts: QuestionDraft[] = [];
 
-    // JSON formatiga o'tkazish
-    const jsonData = XLSX.utils.sheet_to_json(sheet, { header: 1 }) as (string | number)[][];
+  // Ustun indekslarini aniqlash
+  const mapping = findSavedColumnMapping(headers, savedMappings) || detectColumnMapping(headers);
+  if (!isCompleteColumnMapping(mapping)) {
+    // Kerakli ustunlar topilmadi - foydalanuvchidan qo'lda moslash so'raladi
+    const sampleRow = Array.from(jsonData[1] || [], (cell) => (cell === undefined || cell === null ? '' : String(cell)));
+    return { questions, issues, drafts, columnMappingRequest: { headers, mapping, sampleRow } };
+  }
 
-    // Validate data
-    if (jsonData.length === 0) {
-      throw new Error("Excel faylida ma'lumotlar topilmadi");
-    }
+  const columnsWithRole = (role: ColumnRole) => mapping.flatMap((r, index) => (r === role ? [index] : []));
+  const questionIndex = mapping.indexOf('question');
+  // Bir nechta "To'g'ri javob" ustuni bo'lsa - ko'p javobli savollar
+  const correctAnswerIndices = columnsWithRole('correctAnswer');
+  const optionIndices = columnsWithRole('option');
+  // Ixtiyoriy ustunlar: izoh, rasm, mavzu, qiyinlik va teglar
+  const explanationIndex = mapping.indexOf('explanation');
+  const imageIndex = mapping.indexOf('image');
+  const topicIndex = mapping.indexOf('topic');
+  const difficultyIndex = mapping.indexOf('difficulty');
+  const tagsIndex = mapping.indexOf('tags');
 
-    // Ustun nomlarini olish
-    const headers = jsonData[0] as string[];
-    const questions: Question[] = [];
-    const errors: ParseError[] = [];
-
-    // Ustun indekslarini aniqlash
-    const questionIndex = headers.findIndex((h) => h && h.toLowerCase().includes('savol'));
-    const correctAnswerIndex = headers.findIndex((h) => h && h.toLowerCase().includes("to'g'ri javob"));
-    const optionIndices = headers
-      .map((h, i) => ({ header: h, index: i }))
-      .filter((h) => h.header && h.header.toLowerCase().includes('muqobil javob'))
-      .map((h) => h.index);
-
-    if (questionIndex === -1 || correctAnswerIndex === -1 || optionIndices.length === 0) {
-      throw new Error('Excel faylida kerakli ustunlar topilmadi: "Savol", "To\'g\'ri javob", "Muqobil javob"');
+  const totalRows = jsonData.length - 1;
+  let errorCount = 0;
+  const reportProgress = (rowsProcessed: number) =>
+    onProgress?.({ stage: 'rows', rowsProcessed, totalRows, errors: errorCount });
+
+  // Ma'lumotlarni qayta ishlash
+  for (let rowIndex = 1; rowIndex < jsonData.length; rowIndex++) {
+    if (rowIndex % PROGRESS_INTERVAL === 0) reportProgress(rowIndex - 1);
+    const row = jsonData[rowIndex];
+    if (!row || row.length === 0) {
+      // Bo'sh qatorlarni o'tkazib yuborish
+      continue;
     }
 
-    // Ma'lumotlarni qayta ishlash
-    for (let rowIndex = 1; rowIndex < jsonData.length; rowIndex++) {
-      const row = jsonData[rowIndex];
-      if (!row || row.length === 0) {
-        // Bo'sh qatorlarni o'tkazib yuborish
-        continue;
-      }
-
-      const questionText = String(row[questionIndex] || '').trim();
-      const correctAnswer = String(row[correctAnswerIndex] || '').trim();
-
-      // Validatsiya: Savol va to'g'ri javob bo'sh bo'lmasligi kerak
-      if (!questionText) {
-        errors.push({ row: rowIndex + 1, message: 'Savol bo\'sh', details: `Qiymat: "${questionText}"` });
-        continue;
-      }
-      if (!correctAnswer) {
-        errors.push({ row: rowIndex + 1, message: 'To\'g\'ri javob bo\'sh', details: `Qiymat: "${correctAnswer}"` });
-        continue;
-      }
-
-      // Muqobil javoblar
-      const options = new Set<string>();
-      for (const optionIndex of optionIndices) {
-        const optionValue = String(row[optionIndex] || '').trim();
-        if (optionValue.length > 0) {
-          options.add(optionValue);
-        }
-      }
-
-      // To'g'ri javobni qo'shish
-      options.add(correctAnswer);
-
-      let optionArray = Array.from(options);
-
-      // Takrorlangan javoblar tufayli kam variantli test
-      if (optionArray.length < 2) {
-        // 2 tadan kam variant bo'lsa, minimal 2 variant yaratish
-        optionArray = [correctAnswer, 'Noto\'g\'ri javob']; // Minimal 2 variant
-      } else if (optionArray.length < 4) {
-        // 4 tadan kam variant bo'lsa, xabar berish lekin xatolik sifatida hisoblamaslik
-        console.info(`Qator ${rowIndex + 1}: Kam variantli test (${optionArray.length} ta variant)`);
-      }
-
-      const question: Question = {
-        question: questionText,
-        correctAnswer: correctAnswer,
-        options: optionArray,
-        rowNumber: rowIndex + 1,
-      };
+    const draft: QuestionDraft = {
+      row: rowIndex + 1,
+      question: String(row[questionIndex] ?? ''),
+      correctAnswer: correctAnswerIndices
+        .map((answerIndex) => String(row[answerIndex] ?? '').trim())
+        .filter((answer) => answer.length > 0)
+        .join(MULTI_ANSWER_DELIMITER),
+      options: optionIndices.map((optionIndex) => String(row[optionIndex] ?? '')),
+      ...(explanationIndex !== -1 ? { explanation: String(row[explanationIndex] ?? '') } : {}),
+      ...(imageIndex !== -1 ? { image: String(row[imageIndex] ?? '') } : {}),
+      ...(topicIndex !== -1 ? { topic: String(row[topicIndex] ?? '') } : {}),
+      ...(difficultyIndex !== -1 ? { difficulty: String(row[difficultyIndex] ?? '') } : {}),
+      ...(tagsIndex !== -1 ? { tags: String(row[tagsIndex] ?? '') } : {}),
+    };
+    const { question, issues: rowIssues } = validateQuestionDraft(draft);
 
+    if (question) {
       questions.push(question);
     }
+    if (rowIssues.length > 0) {
+      issues.push(...rowIssues);
+      drafts.push(draft);
+      errorCount += rowIssues.filter((issue) => issue.severity === 'error').length;
+    }
+  }
+
+  reportProgress(totalRows);
+  return { questions, issues, drafts };
+};
+
+// Savollarni parseQuestionRows kutadigan ustunlar tartibida qatorlarga aylantirish:
+// Savol | To'g'ri javob | Muqobil javob | Muqobil javob | ... | Izoh | Rasm | Mavzu | Qiyinlik | Teglar (agar bo'lsa).
+// Ko'p javobli savolning to'g'ri javoblari bitta katakda ";;" bilan ajratiladi.
+export const questionsToRows = (questions: Question[]): string[][] => {
+  const wrongOptions = questions.map((q) => q.options.filter((opt) => !isCorrectOption(q, opt)));
+  const optionColumns = Math.max(1, ...wrongOptions.map((opts) => opts.length));
+  const hasExplanations = questions.some((q) => q.explanation);
+  const hasImages = questions.some((q) => q.image);
+  const hasTopics = questions.some((q) => q.topic);
+  const hasDifficulty = questions.some((q) => q.difficulty);
+  const hasTags = questions.some((q) => q.tags && q.tags.length > 0);
+
+  const headers = [
+    'Savol',
+    "To'g'ri javob",
+    ...Array(optionColumns).fill('Muqobil javob'),
+    ...(hasExplanations ? ['Izoh'] : []),
+    ...(hasImages ? ['Rasm'] : []),
+    ...(hasTopics ? ['Mavzu'] : []),
+    ...(hasDifficulty ? ['Qiyinlik'] : []),
+    ...(hasTags ? ['Teglar'] : []),
+  ];
+  const rows = questions.map((q, index) => [
+    q.question,
+    joinCorrectAnswers(q),
+    ...wrongOptions[index],
+    ...Array(optionColumns - wrongOptions[index].length).fill(''),
+    ...(hasExplanations ? [q.explanation || ''] : []),
+    ...(hasImages ? [q.image || ''] : []),
+    ...(hasTopics ? [q.topic || ''] : []),
+    ...(hasDifficulty ? [q.difficulty ? DIFFICULTY_LABELS[q.difficulty] : ''] : []),
+    ...(hasTags ? [(q.tags || []).join(', ')] : []),
+  ]);
+
+  return [headers, ...rows];
+};
+
+// Savollarni parseExcelFile qayta o'qiy oladigan Excel faylga yozish
+export const exportQuestionsToExcel = (questions: Question[]): Blob => {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(questionsToRows(questions)), 'Savollar');
+  const wbout = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
+  return new Blob([wbout], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
 
-    // Xatolarni konsolga chiqarish
-    if (errors.length > 0) {
-      console.warn('Excel faylida xatolar topildi:');
-      errors.forEach((err) => {
-        console.warn(`Qator ${err.row}: ${err.message}${err.details ? ` (${err.details})` : ''}`);
-      });
-      console.warn(`Jami xatolar soni: ${errors.length}`);
+// Excel kitobini o'qish - fayl hajmi tekshirilmaydi. Web Worker ham shu funksiyadan foydalanadi
+// (DOM ishlatilmaydi, natijadagi Blob'lar postMessage orqali uzatiladi).
+export const parseExcelWorkbook = (
+  arrayBuffer: ArrayBuffer,
+  fileName: string,
+  savedMappings: SavedColumnMappings = {},
+  onProgress?: (progress: ParseProgress) => void
+): QuestionParseResult => {
+  onProgress?.({ stage: 'reading', rowsProcessed: 0, totalRows: 0, errors: 0 });
+  const workbook = XLSX.read(arrayBuffer, { type: 'array' });
+  const sheetName = workbook.SheetNames[0];
+  const sheet = workbook.Sheets[sheetName];
+
+  // JSON formatiga o'tkazish
+  const jsonData = XLSX.utils.sheet_to_json(sheet, { header: 1 }) as (string | number)[][];
+  const result = parseQuestionRows(jsonData, 'Excel', savedMappings, onProgress);
+
+  // Qator ustiga joylashtirilgan rasmlar: "Rasm" katagi bo'sh bo'lsa savolga biriktiriladi.
+  // Rasm qismi buzilgan bo'lsa ham savollar yuklanadi - faqat ogohlantirish beriladi
+  let embeddedImages: ReturnType<typeof extractXlsxImages> = {};
+  if (fileName.toLowerCase().endsWith('.xlsx')) {
+    try {
+      embeddedImages = extractXlsxImages(arrayBuffer);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "noma'lum xato";
+      console.error('Excel rasmlarini o\'qishda xato:', errorMessage);
+      result.warnings = [...(result.warnings || []), `Faylga joylashtirilgan rasmlarni o'qib bo'lmadi: ${errorMessage}`];
     }
+  }
+  const embeddedName = (row: number) => embeddedImages[row]?.name;
+  if (Object.keys(embeddedImages).length > 0) {
+    result.questions = result.questions.map((q) =>
+      q.image || !embeddedName(q.rowNumber) ? q : { ...q, image: embeddedName(q.rowNumber) }
+    );
+    // Xato qatorlarni tuzatganda ham rasm yo'qolmasligi kerak
+    result.drafts = result.drafts.map((d) => (d.image || !embeddedName(d.row) ? d : { ...d, image: embeddedName(d.row) }));
+    result.images = Object.fromEntries(Object.values(embeddedImages).map(({ name, blob }) => [name, blob]));
+  }
+
+  return result;
+};
 
-    if (questions.length === 0) {
-      throw new Error('Excel faylida yaroqli savollar topilmadi');
+export const parseExcelFile = async (file: File, savedMappings: SavedColumnMappings = {}): Promise<QuestionParseResult> => {
+  try {
+    // Check file size (max 10MB)
+    if (file.size > 10 * 1024 * 1024) {
+      throw new Error("Fayl hajmi 10MB dan katta bo'lmasligi kerak");
     }
 
-    console.log('Yuklangan savollar:', questions);
-    return questions;
+    const arrayBuffer = await file.arrayBuffer();
+    const result = parseExcelWorkbook(arrayBuffer, file.name, savedMappings);
+
+    console.log('Yuklangan savollar:', result.questions);
+    return result;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Excel faylini o\'qishda xato';
     console.error('Excel parser xatosi:', errorMessage);
@@ -154,4 +240,27 @@ export const generateExcelReport = (rankings: UserResult[]): Blob => {
   
   // Return as Blob
   return new Blob([wbout], { type: 'application/octet-stream' });
-};
\ No newline at end of file
+};
+
+// Tuzatilgan savollar (parseExcelFile qayta o'qiy oladigan ko'rinishda) va
+// tekshiruv hisobotini bitta Excel faylga yig'ish
+export const generateCorrectedWorkbook = (questions: Question[], issues: ValidationIssue[]): Blob => {
+  const wb = XLSX.utils.book_new();
+
+  // "Asl qator" ustuni parser tomonidan e'tiborsiz qoldiriladi, lekin hisobot bilan bog'lash uchun kerak
+  const [headers, ...rows] = questionsToRows(questions);
+  const questionRows = [
+    [...headers, 'Asl qator'],
+    ...rows.map((row, index) => [...row, questions[index].rowNumber]),
+  ];
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(questionRows), 'Savollar');
+
+  const reportRows = [
+    ['Qator', 'Turi', 'Xabar', 'Tafsilot'],
+    ...issues.map((issue) => [issue.row, SEVERITY_LABELS[issue.severity], issue.message, issue.details || '']),
+  ];
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(reportRows), 'Hisobot');
+
+  const wbout = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
+  return new Blob([wbout], { type: 'application/octet-stream' });
+};
@@ -0,0 +1,116 @@
+import * as XLSX from 'xlsx';
+import { Question } from '../types';
+import { questionsToRows } from './excelParser';
+import { MULTI_ANSWER_DELIMITER } from './correctAnswers';
+import { DIFFICULTY_LABELS } from './sessionBlueprint';
+import { TELEGRAM_POLL_LIMITS } from './telegramLimits';
+import { MAX_WORKER_EXCEL_FILE_SIZE } from './excelWorker';
+
+// Har bir savol turi uchun namuna. Jadval questionsToRows orqali yasaladi -
+// shuning uchun shablon parseExcelFile bilan aynan bir xil ustunlarni ishlatadi.
+const TEMPLATE_QUESTIONS: Question[] = [
+  {
+    question: "O'zbekiston poytaxti qaysi shahar?",
+    correctAnswer: 'Toshkent',
+    options: ['Toshkent', 'Samarqand', 'Buxoro', 'Xiva'],
+    rowNumber: 2,
+    explanation: 'Toshkent 1930-yildan beri poytaxt.',
+    topic: 'Geografiya',
+    difficulty: 'easy',
+    tags: ['shaharlar'],
+  },
+  {
+    question: 'Quyidagilardan qaysilari tub sonlar?',
+    correctAnswer: '2',
+    correctAnswers: ['2', '3', '5'],
+    options: ['2', '3', '4', '5', '6'],
+    rowNumber: 3,
+    topic: 'Matematika',
+    difficulty: 'medium',
+    tags: ['sonlar', 'tub sonlar'],
+  },
+  {
+    question: 'Quyosh qanday osmon jismi?',
+    correctAnswer: 'Yulduz',
+    options: ['Yulduz', 'Sayyora', "Yo'ldosh", 'Kometa'],
+    rowNumber: 4,
+    explanation: "Quyosh - Quyosh tizimining markazidagi yulduz, sayyoralar uning atrofida aylanadi.",
+    topic: 'Astronomiya',
+    difficulty: 'easy',
+  },
+  {
+    question: 'Rasmda qaysi organ tasvirlangan?',
+    correctAnswer: 'Yurak',
+    options: ['Yurak', 'Jigar', "O'pka", 'Buyrak'],
+    rowNumber: 5,
+    image: 'yurak.png',
+    topic: 'Biologiya',
+    difficulty: 'hard',
+    tags: ['anatomiya'],
+  },
+];
+
+const difficultyValues = Object.values(DIFFICULTY_LABELS).join(', ');
+
+// Sarlavha kataklariga qo'yiladigan eslatmalar (Excel'da sichqoncha olib borilganda ko'rinadi)
+const HEADER_HINTS: Record<string, string> = {
+  Savol: `Majburiy. Telegram cheklovi - ${TELEGRAM_POLL_LIMITS.question} belgi.`,
+  "To'g'ri javob": `Majburiy. Bir nechta to'g'ri javob "${MULTI_ANSWER_DELIMITER}" bilan ajratiladi yoki yana bir "To'g'ri javob" ustuni qo'shiladi.`,
+  'Muqobil javob': `Kamida bitta. Har bir variant ${TELEGRAM_POLL_LIMITS.option} belgigacha, jami variantlar ${TELEGRAM_POLL_LIMITS.minOptions}-${TELEGRAM_POLL_LIMITS.maxOptions} ta.`,
+  Izoh: `Ixtiyoriy. ${TELEGRAM_POLL_LIMITS.explanation} belgidan uzun izoh alohida xabarda yuboriladi.`,
+  Rasm: 'Ixtiyoriy. Rasm fayli nomi (masalan, yurak.png) - rasmlar papkasini ham yuklang.',
+  Mavzu: 'Ixtiyoriy. Sessiya tarkibini mavzu bo\'yicha tanlash uchun.',
+  Qiyinlik: `Ixtiyoriy. Qiymatlar: ${difficultyValues} (yoki 1, 2, 3).`,
+  Teglar: 'Ixtiyoriy. Vergul bilan ajratilgan teglar.',
+};
+
+const RULE_ROWS: string[][] = [
+  ['Ustun', 'Majburiy', 'Qoida', 'Misol'],
+  ['Savol', 'Ha', `Savol matni, ${TELEGRAM_POLL_LIMITS.question} belgigacha`, TEMPLATE_QUESTIONS[0].question],
+  [
+    "To'g'ri javob",
+    'Ha',
+    `Bir nechta to'g'ri javob "${MULTI_ANSWER_DELIMITER}" bilan ajratiladi - bunday savol ko'p javobli poll bo'lib yuboriladi`,
+    ['2', '3', '5'].join(MULTI_ANSWER_DELIMITER),
+  ],
+  [
+    'Muqobil javob',
+    'Ha',
+    `Noto'g'ri variantlar, har biri alohida ustunda; jami variantlar ${TELEGRAM_POLL_LIMITS.minOptions}-${TELEGRAM_POLL_LIMITS.maxOptions} ta, har biri ${TELEGRAM_POLL_LIMITS.option} belgigacha`,
+    'Samarqand',
+  ],
+  ['Izoh', "Yo'q", `Poll izohi; ${TELEGRAM_POLL_LIMITS.explanation} belgidan uzuni alohida xabarda yuboriladi`, 'Toshkent 1930-yildan beri poytaxt.'],
+  ['Rasm', "Yo'q", "Rasm fayli nomi; rasm savoldan oldin yuboriladi. Rasmni katakka joylashtirish ham mumkin", 'yurak.png'],
+  ['Mavzu', "Yo'q", "Sessiya tarkibini mavzu bo'yicha tanlash uchun", 'Geografiya'],
+  ['Qiyinlik', "Yo'q", `${difficultyValues} yoki 1, 2, 3`, DIFFICULTY_LABELS.medium],
+  ['Teglar', "Yo'q", 'Vergul bilan ajratilgan', 'sonlar, tub sonlar'],
+  [],
+  ['Eslatma', '', "Sarlavhalar ingliz (Question, Correct answer...) yoki rus (Вопрос, Правильный ответ...) tilida ham bo'lishi mumkin", ''],
+  ['Eslatma', '', "Faqat birinchi varaq o'qiladi; bo'sh qatorlar o'tkazib yuboriladi", ''],
+  ['Eslatma', '', `Fayl hajmi ${MAX_WORKER_EXCEL_FILE_SIZE / 1024 / 1024}MB dan oshmasligi kerak`, ''],
+];
+
+// Yangi o'qituvchilar uchun to'ldirishga tayyor Excel shablon
+export const generateExcelTemplate = (): Blob => {
+  const wb = XLSX.utils.book_new();
+
+  const rows = questionsToRows(TEMPLATE_QUESTIONS);
+  const questionSheet = XLSX.utils.aoa_to_sheet(rows);
+  rows[0].forEach((header, index) => {
+    const cell = questionSheet[XLSX.utils.encode_cell({ r: 0, c: index })];
+    const hint = HEADER_HINTS[header];
+    if (cell && hint) {
+      cell.c = [{ a: 'Malak', t: hint }];
+      cell.c.hidden = true;
+    }
+  });
+  questionSheet['!cols'] = rows[0].map((header) => ({ wch: header === 'Savol' ? 40 : 18 }));
+  XLSX.utils.book_append_sheet(wb, questionSheet, 'Savollar');
+
+  const rulesSheet = XLSX.utils.aoa_to_sheet(RULE_ROWS);
+  rulesSheet['!cols'] = [{ wch: 16 }, { wch: 10 }, { wch: 70 }, { wch: 30 }];
+  XLSX.utils.book_append_sheet(wb, rulesSheet, 'Qoidalar');
+
+  const wbout = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
+  return new Blob([wbout], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
@@ -0,0 +1,85 @@
+import { ParseProgress, QuestionParseResult, SavedColumnMappings } from '../types';
+import { parseExcelFile } from './excelParser';
+
+// Katta Excel fayllar Web Worker'da o'qiladi: sahifa qotmaydi, jarayon ko'rsatiladi va o'qishni bekor qilish mumkin.
+// Worker bo'lmagan muhitda oddiy parseExcelFile ishlatiladi (10MB cheklovi bilan).
+
+export const MAX_WORKER_EXCEL_FILE_SIZE = 100 * 1024 * 1024;
+export const PARSE_CANCELLED_MESSAGE = "Faylni o'qish bekor qilindi";
+
+export interface ExcelWorkerRequest {
+  buffer: ArrayBuffer;
+  fileName: string;
+  savedMappings: SavedColumnMappings;
+}
+
+export type ExcelWorkerResponse =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'result'; result: QuestionParseResult }
+  | { type: 'error'; message: string };
+
+export interface ParseFileOptions {
+  onProgress?: (progress: ParseProgress) => void;
+  signal?: AbortSignal;
+}
+
+export const isExcelWorkerSupported = (): boolean => typeof Worker !== 'undefined';
+
+export const parseExcelFileInWorker = async (
+  file: File,
+  savedMappings: SavedColumnMappings = {},
+  { onProgress, signal }: ParseFileOptions = {}
+): Promise<QuestionParseResult> => {
+  if (!isExcelWorkerSupported()) {
+    return parseExcelFile(file, savedMappings);
+  }
+
+  try {
+    if (file.size > MAX_WORKER_EXCEL_FILE_SIZE) {
+      throw new Error(`Fayl hajmi ${MAX_WORKER_EXCEL_FILE_SIZE / 1024 / 1024}MB dan katta bo'lmasligi kerak`);
+    }
+    if (signal?.aborted) {
+      throw new Error(PARSE_CANCELLED_MESSAGE);
+    }
+
+    const buffer = await file.arrayBuffer();
+    const worker = new Worker(new URL('../workers/excelParser.worker.ts', import.meta.url), { type: 'module' });
+
+    return await new Promise<QuestionParseResult>((resolve, reject) => {
+      // Bekor qilinganda worker darhol to'xtatiladi - XLSX.read o'rtasida bo'lsa ham
+      const handleAbort = () => {
+        worker.terminate();
+        reject(new Error(PARSE_CANCELLED_MESSAGE));
+      };
+      const finish = () => {
+        signal?.removeEventListener('abort', handleAbort);
+        worker.terminate();
+      };
+
+      signal?.addEventListener('abort', handleAbort);
+      worker.onmessage = (event: MessageEvent<ExcelWorkerResponse>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          onProgress?.(message.progress);
+        } else if (message.type === 'result') {
+          finish();
+          resolve(message.result);
+        } else {
+          finish();
+          reject(new Error(message.message));
+        }
+      };
+      worker.onerror = (event) => {
+        finish();
+        reject(new Error(event.message || "Excel faylini o'qishda xato"));
+      };
+
+      const request: ExcelWorkerRequest = { buffer, fileName: file.name, savedMappings };
+      worker.postMessage(request, [buffer]);
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Excel faylini o\'qishda xato';
+    console.error('Excel parser xatosi:', errorMessage);
+    throw new Error(errorMessage);
+  }
+};
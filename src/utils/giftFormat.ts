@@ -0,0 +1,213 @@
+import { Question, ParseError, QuestionParseResult } from '../types';
+import { buildParseResult } from './questionValidation';
+import { readTextFile } from './textEncoding';
+import { correctAnswerFields, getCorrectAnswers, isCorrectOption } from './correctAnswers';
+
+// Moodle GIFT formati:
+//   // izoh
+//   ::Nomi:: Savol matni {
+//     =To'g'ri javob
+//     ~Noto'g'ri javob #fikr-mulohaza
+//   }
+// Ko'p javobli savolda to'g'ri javoblar musbat, noto'g'rilari manfiy vaznli: ~%50%Javob, ~%-50%Javob.
+// "=" bilan belgilangan savol bitta javobli: undagi ~%50% kabi vaznlar faqat qisman ball hisoblanadi.
+// Savollar bo'sh qator bilan ajratiladi, maxsus belgilar (~ = # { } :) "\" bilan ekranlanadi.
+
+interface GiftParseResult {
+  questions: Question[];
+  errors: ParseError[];
+}
+
+interface GiftAnswer {
+  text: string;
+  isCorrect: boolean;
+}
+
+const TRUE_FALSE_OPTIONS = ["To'g'ri", "Noto'g'ri"];
+
+const escapeGift = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/[~=#{}:]/g, (char) => `\\${char}`)
+    .replace(/\r?\n/g, '\\n');
+
+const unescapeGift = (text: string): string => text.replace(/\\(.)/g, (_, char) => (char === 'n' ? '\n' : char));
+
+// Ekranlanmagan belgi indeksini qidirish
+const findUnescaped = (text: string, target: string, from: number = 0): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text.startsWith(target, i)) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+// Faylning o'zidagi qator ko'chishlari oddiy bo'shliq, "\n" esa haqiqiy yangi qator
+const cleanText = (text: string): string => unescapeGift(text.replace(/\s+/g, ' ')).trim();
+
+// {...} ichidagi javoblarni ajratish. Qaytadi: javoblar yoki xato matni
+const parseAnswerBlock = (block: string): GiftAnswer[] | string => {
+  const trimmed = block.trim();
+
+  // To'g'ri/noto'g'ri savol: {T} yoki {FALSE}
+  const trueFalse = /^(T|TRUE|F|FALSE)\s*(#.*)?$/is.exec(trimmed);
+  if (trueFalse) {
+    const isTrue = trueFalse[1].toUpperCase().startsWith('T');
+    return [
+      { text: TRUE_FALSE_OPTIONS[0], isCorrect: isTrue },
+      { text: TRUE_FALSE_OPTIONS[1], isCorrect: !isTrue },
+    ];
+  }
+
+  if (!trimmed || (trimmed[0] !== '=' && trimmed[0] !== '~')) {
+    return "Qo'llab-quvvatlanmaydigan savol turi (faqat test va to'g'ri/noto'g'ri savollar)";
+  }
+
+  const answers: { marker: string; raw: string }[] = [];
+  let inFeedback = false;
+  for (let i = 0; i < trimmed.length; i++) {
+    const char = trimmed[i];
+    if (char === '\\') {
+      if (!inFeedback) answers[answers.length - 1].raw += trimmed.slice(i, i + 2);
+      i++;
+    } else if (char === '=' || char === '~') {
+      answers.push({ marker: char, raw: '' });
+      inFeedback = false;
+    } else if (char === '#') {
+      inFeedback = true;
+    } else if (!inFeedback) {
+      answers[answers.length - 1].raw += char;
+    }
+  }
+
+  if (answers.some((answer) => answer.marker === '=' && findUnescaped(answer.raw, '->') !== -1)) {
+    return "Moslashtirish (matching) savollari qo'llab-quvvatlanmaydi";
+  }
+  if (answers.every((answer) => answer.marker === '=')) {
+    return "Qisqa javobli savollar qo'llab-quvvatlanmaydi";
+  }
+
+  const isSingleChoice = answers.some((answer) => answer.marker === '=');
+  return answers.map(({ marker, raw }) => {
+    // ~%50%Javob - vaznli javob; ko'p javobli savolda musbat vazn to'g'ri, manfiy yoki nol vazn noto'g'ri
+    const weight = /^\s*%(-?\d+(?:\.\d+)?)%/.exec(raw);
+    const text = cleanText(weight ? raw.slice(weight[0].length) : raw);
+    const isWeightedCorrect = !isSingleChoice && weight !== null && parseFloat(weight[1]) > 0;
+    return { text, isCorrect: marker === '=' || isWeightedCorrect };
+  });
+};
+
+const parseGiftQuestion = (blockText: string, row: number): Question | ParseError => {
+  let rest = blockText.trim();
+
+  // ::Nomi:: qismini olib tashlash
+  if (rest.startsWith('::')) {
+    const titleEnd = findUnescaped(rest, '::', 2);
+    if (titleEnd === -1) return { row, message: 'Savol nomi yopilmagan', details: '"::" topilmadi' };
+    rest = rest.slice(titleEnd + 2).trim();
+  }
+  rest = rest.replace(/^\[(html|plain|markdown|moodle)\]/i, '');
+
+  const open = findUnescaped(rest, '{');
+  const close = open === -1 ? -1 : findUnescaped(rest, '}', open + 1);
+  if (open === -1 || close === -1) {
+    return { row, message: 'Javoblar bloki topilmadi', details: '"{ ... }" kerak' };
+  }
+
+  // Savol {javoblar} davomi - "bo'sh joyni to'ldiring" ko'rinishi
+  const before = cleanText(rest.slice(0, open));
+  const after = cleanText(rest.slice(close + 1));
+  const questionText = after ? `${before} _____ ${after}`.trim() : before;
+  if (!questionText) return { row, message: "Savol bo'sh" };
+
+  const answers = parseAnswerBlock(rest.slice(open + 1, close));
+  if (typeof answers === 'string') return { row, message: answers };
+
+  const options = answers.map((answer) => answer.text);
+  const correct = answers.filter((answer) => answer.isCorrect);
+  if (options.some((option) => !option)) return { row, message: "Javob varianti bo'sh" };
+  if (new Set(options).size !== options.length) return { row, message: 'Takrorlangan javob varianti' };
+  if (correct.length === 0) return { row, message: "To'g'ri javob belgilanmagan" };
+  if (options.length < 2) return { row, message: 'Kamida 2 ta javob varianti kerak' };
+
+  return { question: questionText, ...correctAnswerFields(correct.map((answer) => answer.text)), options, rowNumber: row };
+};
+
+export const parseGiftText = (text: string): GiftParseResult => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const questions: Question[] = [];
+  const errors: ParseError[] = [];
+
+  let blockLines: string[] = [];
+  let blockStart = 0;
+
+  const flush = () => {
+    if (blockLines.length > 0) {
+      const result = parseGiftQuestion(blockLines.join('\n'), blockStart);
+      if ('message' in result) {
+        errors.push(result);
+      } else {
+        questions.push(result);
+      }
+    }
+    blockLines = [];
+  };
+
+  lines.forEach((line, index) => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('//') || trimmed.startsWith('$CATEGORY:')) return;
+    if (!trimmed) {
+      flush();
+      return;
+    }
+    if (blockLines.length === 0) blockStart = index + 1;
+    blockLines.push(line);
+  });
+  flush();
+
+  return { questions, errors };
+};
+
+export const parseGiftFile = async (file: File): Promise<QuestionParseResult> => {
+  try {
+    // Check file size (max 10MB)
+    if (file.size > 10 * 1024 * 1024) {
+      throw new Error("Fayl hajmi 10MB dan katta bo'lmasligi kerak");
+    }
+
+    const { questions, errors } = parseGiftText((await readTextFile(file)).text);
+
+    if (questions.length === 0 && errors.length === 0) {
+      throw new Error('GIFT faylida savollar topilmadi');
+    }
+
+    return buildParseResult(questions, errors);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "GIFT faylini o'qishda xato";
+    console.error('GIFT parser xatosi:', errorMessage);
+    throw new Error(errorMessage);
+  }
+};
+
+export const exportQuestionsToGift = (questions: Question[]): Blob => {
+  const content = questions
+    .map((q) => {
+      // Ko'p javobli savol: to'g'ri javoblar teng musbat "~%50%", noto'g'rilari teng manfiy "~%-50%" vaznli.
+      // Manfiy vaznsiz hamma variantni belgilagan talaba ham 100% olardi
+      const correctCount = getCorrectAnswers(q).length;
+      const wrongCount = q.options.length - correctCount;
+      const toWeight = (value: number) => Math.round(value * 100000) / 100000;
+      const marker = (opt: string) => {
+        if (correctCount === 1) return isCorrectOption(q, opt) ? '=' : '~';
+        return isCorrectOption(q, opt) ? `~%${toWeight(100 / correctCount)}%` : `~%${toWeight(-100 / wrongCount)}%`;
+      };
+      const answers = q.options.map((opt) => `  ${marker(opt)}${escapeGift(opt)}`);
+      return [`::Savol ${q.rowNumber}:: ${escapeGift(q.question)} {`, ...answers, '}'].join('\n');
+    })
+    .join('\n\n');
+
+  return new Blob([content, '\n'], { type: 'text/plain;charset=utf-8' });
+};
@@ -0,0 +1,188 @@
+import * as XLSX from 'xlsx';
+import { Question, ParseError, QuestionParseResult } from '../types';
+import { buildParseResult } from './questionValidation';
+import { correctAnswerFields } from './correctAnswers';
+import { readTextFile } from './textEncoding';
+
+// HEMIS formati:
+//   Savol matni
+//   ====
+//   #To'g'ri javob (bir nechta "#" - ko'p javobli savol)
+//   ====
+//   Noto'g'ri javob
+//   ++++
+//   Keyingi savol ...
+const QUESTION_SEPARATOR = /^\s*\+{4,}\s*$/;
+const OPTION_SEPARATOR = /^\s*={4,}\s*$/;
+const CORRECT_MARKER = /^\s*#\s*/;
+
+interface HemisParseResult {
+  questions: Question[];
+  errors: ParseError[];
+}
+
+// Bitta blok (savol yoki variant) qatorlari va boshlanish qatori raqami
+interface TextChunk {
+  lines: string[];
+  startLine: number;
+}
+
+const decodeXmlEntities = (text: string): string =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// .docx fayldan matnni olish: har bir paragraf (<w:p>) alohida qator bo'ladi.
+// .docx - bu zip arxiv, uni xlsx ichidagi CFB kutubxonasi orqali ochamiz.
+const extractDocxText = (buffer: ArrayBuffer): string => {
+  const zip = XLSX.CFB.read(new Uint8Array(buffer), { type: 'buffer' });
+  const entry = XLSX.CFB.find(zip, '/word/document.xml');
+  if (!entry) {
+    throw new Error('Word hujjatida matn topilmadi');
+  }
+
+  const xml = new TextDecoder('utf-8').decode(new Uint8Array(entry.content));
+  const body = xml.replace(/^[\s\S]*?<w:body[^>]*>/, '');
+
+  return body
+    .split(/<\/w:p>/)
+    .map((paragraph) =>
+      paragraph
+        .replace(/<w:tab\/>/g, '\t')
+        .replace(/<w:br\/>/g, '\n')
+        .replace(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<[^>]+>/g, (_, textRun) => textRun ?? '')
+    )
+    .map(decodeXmlEntities)
+    .join('\n');
+};
+
+// Qatorlarni ajratuvchi regex bo'yicha bloklarga bo'lish
+const splitChunks = (lines: string[], startLine: number, separator: RegExp): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+  let current: TextChunk = { lines: [], startLine };
+
+  lines.forEach((line, index) => {
+    if (separator.test(line)) {
+      chunks.push(current);
+      current = { lines: [], startLine: startLine + index + 1 };
+    } else {
+      current.lines.push(line);
+    }
+  });
+  chunks.push(current);
+  return chunks;
+};
+
+// Blok boshidagi va oxiridagi bo'sh qatorlarni tashlab, haqiqiy boshlanish qatorini topish
+const firstContentLine = (chunk: TextChunk): number => {
+  const offset = chunk.lines.findIndex((line) => line.trim().length > 0);
+  return chunk.startLine + Math.max(offset, 0);
+};
+
+const chunkText = (chunk: TextChunk, joiner: string): string =>
+  chunk.lines
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .join(joiner);
+
+export const parseHemisText = (text: string): HemisParseResult => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const questions: Question[] = [];
+  const errors: ParseError[] = [];
+
+  for (const block of splitChunks(lines, 1, QUESTION_SEPARATOR)) {
+    // Bo'sh bloklar (masalan, fayl boshidagi yoki oxiridagi ++++) o'tkazib yuboriladi
+    if (chunkText(block, ' ').length === 0) continue;
+
+    const row = firstContentLine(block);
+    const [questionChunk, ...optionChunks] = splitChunks(block.lines, block.startLine, OPTION_SEPARATOR);
+    const questionText = chunkText(questionChunk, '\n');
+
+    if (!questionText) {
+      errors.push({ row, message: "Savol bo'sh" });
+      continue;
+    }
+    if (optionChunks.length === 0) {
+      errors.push({ row, message: 'Javob variantlari topilmadi', details: '"====" ajratuvchisi yo\'q' });
+      continue;
+    }
+
+    const options: string[] = [];
+    const correctAnswers: string[] = [];
+    let blockError: ParseError | null = null;
+
+    for (const optionChunk of optionChunks) {
+      const rawOption = chunkText(optionChunk, ' ');
+      const isCorrect = CORRECT_MARKER.test(rawOption);
+      const optionText = rawOption.replace(CORRECT_MARKER, '').trim();
+
+      if (!optionText) {
+        blockError = { row: firstContentLine(optionChunk), message: "Javob varianti bo'sh" };
+        break;
+      }
+      if (options.includes(optionText)) {
+        blockError = {
+          row: firstContentLine(optionChunk),
+          message: 'Takrorlangan javob varianti',
+          details: `Qiymat: "${optionText}"`,
+        };
+        break;
+      }
+
+      options.push(optionText);
+      if (isCorrect) correctAnswers.push(optionText);
+    }
+
+    if (blockError) {
+      errors.push(blockError);
+      continue;
+    }
+    if (correctAnswers.length === 0) {
+      errors.push({ row, message: "To'g'ri javob belgilanmagan", details: '"#" belgisi topilmadi' });
+      continue;
+    }
+    if (options.length < 2) {
+      errors.push({ row, message: 'Kamida 2 ta javob varianti kerak' });
+      continue;
+    }
+
+    questions.push({
+      question: questionText,
+      ...correctAnswerFields(correctAnswers),
+      options,
+      rowNumber: row,
+    });
+  }
+
+  return { questions, errors };
+};
+
+export const parseHemisFile = async (file: File): Promise<QuestionParseResult> => {
+  try {
+    // Check file size (max 10MB)
+    if (file.size > 10 * 1024 * 1024) {
+      throw new Error("Fayl hajmi 10MB dan katta bo'lmasligi kerak");
+    }
+
+    const text = file.name.toLowerCase().endsWith('.docx')
+      ? extractDocxText(await file.arrayBuffer())
+      : (await readTextFile(file)).text;
+
+    const { questions, errors } = parseHemisText(text);
+
+    if (questions.length === 0 && errors.length === 0) {
+      throw new Error('Test faylida savollar topilmadi ("++++" va "====" formatini tekshiring)');
+    }
+
+    return buildParseResult(questions, errors);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Test faylini o'qishda xato";
+    console.error('HEMIS parser xatosi:', errorMessage);
+    throw new Error(errorMessage);
+  }
+};
@@ -0,0 +1,134 @@
+import { Question, ParseError, QuestionParseResult } from '../types';
+import { buildParseResult } from './questionValidation';
+
+// HTML test sahifasidagi quizData elementi
+interface HtmlQuizItem {
+  question?: unknown;
+  answers?: Record<string, unknown>;
+  correct?: unknown;
+}
+
+// HTML entitylarni (&lt;, &quot;, &#39; ...) oddiy matnga aylantirish.
+// <textarea> ichida teglar o'qilmaydi, shuning uchun "if a<b && c" kabi matndagi "<" yo'qolmaydi
+const decodeHtmlEntities = (text: string): string => {
+  if (!text.includes('&')) return text;
+  const textarea = document.createElement('textarea');
+  textarea.innerHTML = text;
+  return textarea.value;
+};
+
+// `const quizData = [...]` massivini skript matnidan ajratib olish.
+// Qavslar satrlar ichida ham uchrashi mumkin, shuning uchun oddiy regex o'rniga
+// satr chegaralarini hisobga olgan holda mos yopuvchi qavsni qidiramiz.
+const extractQuizDataArray = (source: string): string | null => {
+  const match = /(?:const|let|var)\s+quizData\s*=\s*\[/.exec(source);
+  if (!match) return null;
+
+  const start = match.index + match[0].length - 1;
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+      if (depth === 0) {
+        return source.slice(start, i + 1);
+      }
+    }
+  }
+  return null;
+};
+
+export const parseHtmlQuizFile = async (file: File): Promise<QuestionParseResult> => {
+  try {
+    // Check file size (max 10MB)
+    if (file.size > 10 * 1024 * 1024) {
+      throw new Error("Fayl hajmi 10MB dan katta bo'lmasligi kerak");
+    }
+
+    const content = await file.text();
+    const arrayText = extractQuizDataArray(content);
+    if (!arrayText) {
+      throw new Error('HTML faylida quizData topilmadi');
+    }
+
+    let quizData: HtmlQuizItem[];
+    try {
+      quizData = JSON.parse(arrayText);
+    } catch (parseError) {
+      throw new Error(`quizData JSON formatida xato bor: ${(parseError as Error).message}`);
+    }
+
+    if (!Array.isArray(quizData) || quizData.length === 0) {
+      throw new Error("HTML faylida ma'lumotlar topilmadi");
+    }
+
+    const questions: Question[] = [];
+    const errors: ParseError[] = [];
+
+    quizData.forEach((item, index) => {
+      // rowNumber - quizData massividagi tartib raqami (1 dan boshlab)
+      const position = index + 1;
+      const questionText = decodeHtmlEntities(String(item?.question ?? '')).trim();
+      const answers = item?.answers && typeof item.answers === 'object' ? item.answers : {};
+      const correctKey = String(item?.correct ?? '').trim();
+
+      if (!questionText) {
+        errors.push({ row: position, message: "Savol bo'sh" });
+        return;
+      }
+      if (!(correctKey in answers)) {
+        errors.push({ row: position, message: "To'g'ri javob topilmadi", details: `Kalit: "${correctKey}"` });
+        return;
+      }
+
+      const correctAnswer = decodeHtmlEntities(String(answers[correctKey] ?? '')).trim();
+      if (!correctAnswer) {
+        errors.push({ row: position, message: "To'g'ri javob bo'sh", details: `Kalit: "${correctKey}"` });
+        return;
+      }
+
+      // Variantlar tartibini (a, b, c, d ...) saqlagan holda takrorlarsiz yig'ish
+      const options = new Set<string>();
+      for (const key of Object.keys(answers).sort()) {
+        const optionValue = decodeHtmlEntities(String(answers[key] ?? '')).trim();
+        if (optionValue.length > 0) {
+          options.add(optionValue);
+        }
+      }
+      options.add(correctAnswer);
+
+      const optionArray = Array.from(options);
+      if (optionArray.length < 2) {
+        errors.push({ row: position, message: 'Kamida 2 ta javob varianti kerak' });
+        return;
+      }
+
+      questions.push({
+        question: questionText,
+        correctAnswer,
+        options: optionArray,
+        rowNumber: position,
+      });
+    });
+
+    return buildParseResult(questions, errors);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "HTML faylini o'qishda xato";
+    console.error('HTML parser xatosi:', errorMessage);
+    throw new Error(errorMessage);
+  }
+};
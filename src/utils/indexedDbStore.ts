@@ -0,0 +1,73 @@
+// Brauzerning IndexedDB xotirasidagi bitta object store bilan ishlash: baza bir marta ochiladi,
+// so'rovlar tranzaksiya ichida bajariladi. Savollar kutubxonasi va test checkpointlari shundan foydalanadi.
+
+export interface IndexedDbStoreConfig {
+  dbName: string;
+  version: number;
+  storeName: string;
+  keyPath: string;
+  openErrorMessage: string; // bazani ochib bo'lmaganda
+  abortErrorMessage: string; // tranzaksiya bekor qilinganda
+  logLabel: string; // console.error uchun
+}
+
+export interface IndexedDbStore {
+  // Bitta so'rovni tranzaksiya ichida bajarish
+  runRequest: <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => Promise<T>;
+  // Xatoni logga yozib, xabarini saqlagan holda qayta otish
+  runAction: <T>(action: () => Promise<T>, fallbackMessage: string) => Promise<T>;
+}
+
+export const createIndexedDbStore = (config: IndexedDbStoreConfig): IndexedDbStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('Brauzer IndexedDB ni qo\'llab-quvvatlamaydi'));
+          return;
+        }
+        const request = indexedDB.open(config.dbName, config.version);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(config.storeName)) {
+            request.result.createObjectStore(config.storeName, { keyPath: config.keyPath });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error || new Error(config.openErrorMessage));
+      });
+      // Xato bo'lsa keyingi chaqiruvda qayta urinib ko'riladi
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  };
+
+  const runRequest = async <T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(config.storeName, mode);
+      const request = action(transaction.objectStore(config.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error || request.error);
+      transaction.onabort = () => reject(transaction.error || new Error(config.abortErrorMessage));
+    });
+  };
+
+  const runAction = async <T>(action: () => Promise<T>, fallbackMessage: string): Promise<T> => {
+    try {
+      return await action();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : fallbackMessage;
+      console.error(`${config.logLabel}:`, errorMessage);
+      throw new Error(errorMessage);
+    }
+  };
+
+  return { runRequest, runAction };
+};
@@ -0,0 +1,151 @@
+import { Question, ParseError, QuestionParseResult } from '../types';
+import { buildParseResult } from './questionValidation';
+import { parseDifficulty } from './sessionBlueprint';
+import { findMatchingIndex } from './textNormalization';
+
+// Savollar bazasini git'da saqlash va diff qilish uchun versiyalangan JSON formati
+export const QUESTION_BUNDLE_FORMAT = 'malak-question-bank';
+export const QUESTION_BUNDLE_VERSION = 1;
+
+export interface QuestionBundle {
+  format: typeof QUESTION_BUNDLE_FORMAT;
+  version: number;
+  name?: string;
+  exportedAt: string;
+  questions: Question[];
+}
+
+// Kalitlar tartibini barqaror qilish - diff faqat haqiqiy o'zgarishlarni ko'rsatishi uchun.
+// Biriktirilgan rasm (Blob) JSON'ga yozilmaydi - faqat rasm nomi qoladi.
+const normalizeQuestion = ({ question, correctAnswer, correctAnswers, options, rowNumber, ...rest }: Question): Question => {
+  const normalized: Question = {
+    question,
+    correctAnswer,
+    ...(correctAnswers ? { correctAnswers } : {}),
+    options,
+    rowNumber,
+    ...rest,
+  };
+  delete normalized.imageBlob;
+  return normalized;
+};
+
+export const createQuestionBundle = (questions: Question[], name?: string): QuestionBundle => ({
+  format: QUESTION_BUNDLE_FORMAT,
+  version: QUESTION_BUNDLE_VERSION,
+  ...(name ? { name } : {}),
+  exportedAt: new Date().toISOString(),
+  questions: questions.map(normalizeQuestion),
+});
+
+export const exportQuestionsToJson = (questions: Question[], name?: string): Blob =>
+  new Blob([JSON.stringify(createQuestionBundle(questions, name), null, 2) + '\n'], {
+    type: 'application/json;charset=utf-8',
+  });
+
+// JSON ichidagi bitta savolni tekshirish; yaroqsiz bo'lsa xato matnini qaytaradi
+const validateBundleQuestion = (item: unknown): string | null => {
+  if (!item || typeof item !== 'object') return "Savol obyekt emas";
+  const q = item as Partial<Question>;
+  if (typeof q.question !== 'string' || !q.question.trim()) return "Savol bo'sh";
+  if (!Array.isArray(q.options) || !q.options.every((opt) => typeof opt === 'string')) {
+    return "Javob variantlari noto'g'ri formatda";
+  }
+  if (typeof q.correctAnswer !== 'string' || !q.correctAnswer.trim()) return "To'g'ri javob bo'sh";
+  if (findMatchingIndex(q.options, q.correctAnswer) === -1) return "To'g'ri javob variantlar orasida topilmadi";
+  if (q.correctAnswers !== undefined) {
+    if (!Array.isArray(q.correctAnswers) || !q.correctAnswers.every((answer) => typeof answer === 'string')) {
+      return "To'g'ri javoblar ro'yxati noto'g'ri formatda";
+    }
+    if (!q.correctAnswers.every((answer) => findMatchingIndex(q.options!, answer) !== -1)) {
+      return "To'g'ri javoblardan biri variantlar orasida topilmadi";
+    }
+  }
+  if (q.options.length < 2) return 'Kamida 2 ta javob varianti kerak';
+  return null;
+};
+
+// Xatolar ham, savollar ham bir xil raqamlanadi: faylda saqlangan rowNumber, bo'lmasa massivdagi o'rni
+const getBundleRow = (item: unknown, index: number): number => {
+  const rowNumber = item && typeof item === 'object' ? (item as Partial<Question>).rowNumber : undefined;
+  return typeof rowNumber === 'number' && Number.isFinite(rowNumber) ? rowNumber : index + 1;
+};
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+export const parseQuestionBundle = (text: string): QuestionParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (parseError) {
+    throw new Error(`JSON formatida xato bor: ${(parseError as Error).message}`);
+  }
+
+  // Eski/qo'lda yozilgan fayllar: faqat savollar massivi
+  let items: unknown[];
+  if (Array.isArray(data)) {
+    items = data;
+  } else if (data && typeof data === 'object' && (data as QuestionBundle).format === QUESTION_BUNDLE_FORMAT) {
+    const bundle = data as QuestionBundle;
+    if (typeof bundle.version !== 'number' || bundle.version > QUESTION_BUNDLE_VERSION) {
+      throw new Error(`JSON fayl versiyasi qo'llab-quvvatlanmaydi: ${bundle.version}`);
+    }
+    items = Array.isArray(bundle.questions) ? bundle.questions : [];
+  } else {
+    throw new Error(`JSON fayl "${QUESTION_BUNDLE_FORMAT}" formatida emas`);
+  }
+
+  const questions: Question[] = [];
+  const errors: ParseError[] = [];
+
+  items.forEach((item, index) => {
+    const row = getBundleRow(item, index);
+    const error = validateBundleQuestion(item);
+    if (error) {
+      errors.push({ row, message: error });
+      return;
+    }
+    const q = item as Question;
+    const explanation = optionalString(q.explanation);
+    const image = optionalString(q.image);
+    const topic = optionalString(q.topic);
+    const sourceFile = optionalString(q.sourceFile);
+    // Qo'lda yozilgan faylda qiyinlik "oson" yoki "3" ko'rinishida bo'lishi mumkin
+    const difficulty = typeof q.difficulty === 'string' ? parseDifficulty(q.difficulty) : undefined;
+    // Faqat ma'lum maydonlar olinadi: imageBlob, pollStrategy, duplicateGroup kabi ichki maydonlar fayldan kelmaydi
+    questions.push({
+      question: q.question.trim(),
+      correctAnswer: q.correctAnswer.trim(),
+      ...(q.correctAnswers ? { correctAnswers: q.correctAnswers.map((answer) => answer.trim()) } : {}),
+      options: q.options.map((opt) => opt.trim()),
+      rowNumber: row,
+      ...(sourceFile ? { sourceFile } : {}),
+      ...(explanation ? { explanation } : {}),
+      ...(image ? { image } : {}),
+      ...(topic ? { topic } : {}),
+      ...(difficulty ? { difficulty } : {}),
+      ...(Array.isArray(q.tags) ? { tags: q.tags.filter((tag) => typeof tag === 'string' && tag.trim()) } : {}),
+    });
+  });
+
+  if (questions.length === 0 && errors.length === 0) {
+    throw new Error('JSON faylida savollar topilmadi');
+  }
+
+  return buildParseResult(questions, errors);
+};
+
+export const parseJsonBundleFile = async (file: File): Promise<QuestionParseResult> => {
+  try {
+    // Check file size (max 10MB)
+    if (file.size > 10 * 1024 * 1024) {
+      throw new Error("Fayl hajmi 10MB dan katta bo'lmasligi kerak");
+    }
+    return parseQuestionBundle(await file.text());
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "JSON faylini o'qishda xato";
+    console.error('JSON parser xatosi:', errorMessage);
+    throw new Error(errorMessage);
+  }
+};
@@ -0,0 +1,165 @@
+import { Question, ParseError, QuestionParseResult } from '../types';
+import { buildParseResult } from './questionValidation';
+import { readTextFile } from './textEncoding';
+import { correctAnswerFields, getCorrectAnswers, isCorrectOption, isMultiAnswerQuestion } from './correctAnswers';
+
+// Moodle XML formati (<quiz><question type="multichoice">...</question></quiz>).
+// Faqat multichoice (bitta yoki bir nechta to'g'ri javob) va truefalse savollar o'qiladi.
+
+interface MoodleXmlParseResult {
+  questions: Question[];
+  errors: ParseError[];
+}
+
+// Moodle savol matni odatda HTML bo'ladi - uni oddiy matnga aylantiramiz
+const htmlToPlainText = (html: string): string => {
+  const withBreaks = html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(p|div|li)>/gi, '\n');
+  const doc = new DOMParser().parseFromString(`<!doctype html><body>${withBreaks}`, 'text/html');
+  return (doc.body.textContent || '')
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line.length > 0)
+    .join('\n');
+};
+
+// <element format="..."><text>...</text></element> ichidagi matnni olish.
+// format ko'rsatilmagan bo'lsa Moodle uni HTML deb hisoblaydi.
+const readTextElement = (element: Element | undefined): string => {
+  if (!element) return '';
+  const raw = Array.from(element.children).find((child) => child.tagName === 'text')?.textContent ?? '';
+  const format = element.getAttribute('format') || 'html';
+  return format === 'html' ? htmlToPlainText(raw) : raw.trim();
+};
+
+export const parseMoodleXmlText = (text: string): MoodleXmlParseResult => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('XML faylida sintaksis xatosi bor');
+  }
+  if (doc.documentElement.tagName !== 'quiz') {
+    throw new Error('Moodle XML fayli <quiz> elementidan boshlanishi kerak');
+  }
+
+  const questions: Question[] = [];
+  const errors: ParseError[] = [];
+
+  Array.from(doc.documentElement.children)
+    .filter((el) => el.tagName === 'question')
+    .forEach((el, index) => {
+      // rowNumber - fayldagi <question> elementining tartib raqami
+      const row = index + 1;
+      const type = el.getAttribute('type') || '';
+      if (type === 'category') return;
+
+      if (type !== 'multichoice' && type !== 'truefalse') {
+        errors.push({ row, message: "Qo'llab-quvvatlanmaydigan savol turi", details: `type="${type}"` });
+        return;
+      }
+
+      const questionText = readTextElement(Array.from(el.children).find((child) => child.tagName === 'questiontext'));
+      if (!questionText) {
+        errors.push({ row, message: "Savol bo'sh" });
+        return;
+      }
+
+      const answers = Array.from(el.children)
+        .filter((child) => child.tagName === 'answer')
+        .map((answer) => ({
+          text: readTextElement(answer),
+          fraction: parseFloat(answer.getAttribute('fraction') || '0'),
+        }));
+
+      // Bitta javobli savolda musbat fraction qisman ball bo'lishi mumkin - to'g'ri javob eng yuqori ballisi.
+      // Ko'p javobli savolda musbat fraction to'g'ri, manfiy yoki nol noto'g'ri javob
+      const single = Array.from(el.children).find((child) => child.tagName === 'single')?.textContent?.trim();
+      const isSingleChoice = type === 'truefalse' || (single !== 'false' && single !== '0');
+      const maxFraction = Math.max(...answers.map((answer) => answer.fraction));
+      const options = answers.map((answer) => answer.text);
+      const correct = answers.filter((answer) =>
+        isSingleChoice ? answer.fraction > 0 && answer.fraction === maxFraction : answer.fraction > 0
+      );
+
+      if (options.some((opt) => !opt)) {
+        errors.push({ row, message: "Javob varianti bo'sh" });
+      } else if (new Set(options).size !== options.length) {
+        errors.push({ row, message: 'Takrorlangan javob varianti' });
+      } else if (options.length < 2) {
+        errors.push({ row, message: 'Kamida 2 ta javob varianti kerak' });
+      } else if (correct.length === 0) {
+        errors.push({ row, message: "To'g'ri javob belgilanmagan" });
+      } else {
+        questions.push({
+          question: questionText,
+          ...correctAnswerFields(correct.map((answer) => answer.text)),
+          options,
+          rowNumber: row,
+        });
+      }
+    });
+
+  return { questions, errors };
+};
+
+export const parseMoodleXmlFile = async (file: File): Promise<QuestionParseResult> => {
+  try {
+    // Check file size (max 10MB)
+    if (file.size > 10 * 1024 * 1024) {
+      throw new Error("Fayl hajmi 10MB dan katta bo'lmasligi kerak");
+    }
+
+    const { questions, errors } = parseMoodleXmlText((await readTextFile(file)).text);
+
+    if (questions.length === 0 && errors.length === 0) {
+      throw new Error('Moodle XML faylida savollar topilmadi');
+    }
+
+    return buildParseResult(questions, errors);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Moodle XML faylini o'qishda xato";
+    console.error('Moodle XML parser xatosi:', errorMessage);
+    throw new Error(errorMessage);
+  }
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Matn Moodle'da HTML sifatida ko'rsatiladi: "<?php" kabi kodlar yo'qolmasligi uchun
+// avval HTML entitylarga aylantiramiz, keyin XML uchun yana ekranlaymiz.
+const htmlTextElement = (text: string): string =>
+  `<text>${escapeXml(escapeXml(text).replace(/\r?\n/g, '<br>'))}</text>`;
+
+// Moodle fraction qiymatining kasr qismi 5 xonagacha bo'ladi (masalan, 33.33333)
+const formatFraction = (value: number): string => String(Math.round(value * 100000) / 100000);
+
+export const exportQuestionsToMoodleXml = (questions: Question[]): Blob => {
+  const questionElements = questions.map((q) => {
+    // Ko'p javobli savolda ball to'g'ri javoblar orasida teng bo'linadi, noto'g'ri javoblar esa
+    // teng manfiy ulush oladi - aks holda hamma variantni belgilash ham 100% berardi
+    const correctCount = getCorrectAnswers(q).length;
+    const correctFraction = formatFraction(100 / correctCount);
+    const wrongFraction = correctCount > 1 ? formatFraction(-100 / (q.options.length - correctCount)) : '0';
+    const answers = q.options.map(
+      (opt) =>
+        `    <answer fraction="${isCorrectOption(q, opt) ? correctFraction : wrongFraction}" format="html">\n` +
+        `      ${htmlTextElement(opt)}\n` +
+        `    </answer>`
+    );
+    return [
+      `  <question type="multichoice">`,
+      `    <name><text>${escapeXml(`Savol ${q.rowNumber}`)}</text></name>`,
+      `    <questiontext format="html">`,
+      `      ${htmlTextElement(q.question)}`,
+      `    </questiontext>`,
+      `    <defaultgrade>1</defaultgrade>`,
+      `    <single>${isMultiAnswerQuestion(q) ? 'false' : 'true'}</single>`,
+      `    <shuffleanswers>true</shuffleanswers>`,
+      `    <answernumbering>abc</answernumbering>`,
+      ...answers,
+      `  </question>`,
+    ].join('\n');
+  });
+
+  const content = ['<?xml version="1.0" encoding="UTF-8"?>', '<quiz>', ...questionElements, '</quiz>', ''].join('\n');
+  return new Blob([content], { type: 'application/xml;charset=utf-8' });
+};
@@ -0,0 +1,35 @@
+import { Question } from '../types';
+import { exportQuestionsToExcel } from './excelParser';
+import { exportQuestionsToCsv } from './csvFormat';
+import { exportQuestionsToJson } from './jsonBundle';
+import { exportQuestionsToGift } from './giftFormat';
+import { exportQuestionsToAiken, isAikenUnsupported } from './aikenFormat';
+import { exportQuestionsToMoodleXml } from './moodleXmlFormat';
+
+export type QuestionExportFormatId = 'xlsx' | 'csv' | 'tsv' | 'json' | 'gift' | 'aiken' | 'moodle-xml';
+
+export interface QuestionExportFormat {
+  id: QuestionExportFormatId;
+  label: string;
+  // Yuklab olinadigan fayl nomiga qo'shiladigan qism (masalan ".aiken.txt")
+  fileSuffix: string;
+  exportQuestions: (questions: Question[], name: string) => Blob;
+  // Formatda saqlab bo'lmaydigan savollar - eksportda tashlab ketiladi, foydalanuvchiga sababi bilan ko'rsatiladi
+  unsupported?: { isUnsupported: (question: Question) => boolean; reason: string };
+}
+
+export const QUESTION_EXPORT_FORMATS: QuestionExportFormat[] = [
+  { id: 'xlsx', label: 'Excel', fileSuffix: '.xlsx', exportQuestions: exportQuestionsToExcel },
+  { id: 'csv', label: 'CSV', fileSuffix: '.csv', exportQuestions: (questions) => exportQuestionsToCsv(questions, ',') },
+  { id: 'tsv', label: 'TSV', fileSuffix: '.tsv', exportQuestions: (questions) => exportQuestionsToCsv(questions, '\t') },
+  { id: 'json', label: 'JSON', fileSuffix: '.json', exportQuestions: exportQuestionsToJson },
+  { id: 'gift', label: 'GIFT', fileSuffix: '.gift', exportQuestions: exportQuestionsToGift },
+  {
+    id: 'aiken',
+    label: 'Aiken',
+    fileSuffix: '.aiken.txt',
+    exportQuestions: exportQuestionsToAiken,
+    unsupported: { isUnsupported: isAikenUnsupported, reason: 'Aiken faqat bitta to\'g\'ri javobli savollarni qo\'llaydi' },
+  },
+  { id: 'moodle-xml', label: 'Moodle XML', fileSuffix: '.xml', exportQuestions: exportQuestionsToMoodleXml },
+];
@@ -0,0 +1,138 @@
+import * as XLSX from 'xlsx';
+import { Question } from '../types';
+
+// Savol rasmlari: "Rasm" ustunidagi fayl nomi yuklangan papkadan qidiriladi,
+// yoki rasm xlsx ichiga qator ustiga joylashtirilgan bo'ladi.
+
+export const IMAGE_FILE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.bmp'];
+
+// Telegram sendPhoto orqali yuboriladigan rasm hajmi 10MB dan oshmasligi kerak
+export const MAX_PHOTO_SIZE = 10 * 1024 * 1024;
+
+// Fayl nomi -> rasm (kalitlar kichik harfda)
+export type ImageLibrary = Record<string, Blob>;
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+};
+
+const baseName = (path: string): string => path.split(/[\\/]/).pop() || path;
+
+const normalizeImageKey = (name: string): string => baseName(name.trim()).toLowerCase();
+
+export const isImageFile = (file: File): boolean =>
+  IMAGE_FILE_EXTENSIONS.some((ext) => file.name.toLowerCase().endsWith(ext));
+
+// Papkadan tanlangan fayllardan rasm kutubxonasini yig'ish (rasm bo'lmaganlari tashlanadi)
+export const buildImageLibrary = (files: File[]): ImageLibrary =>
+  files.filter(isImageFile).reduce<ImageLibrary>((library, file) => {
+    library[normalizeImageKey(file.name)] = file;
+    return library;
+  }, {});
+
+// Parser qaytargan rasmlarni (nomi -> rasm) kutubxona kalitlariga moslash
+export const toImageLibrary = (images: Record<string, Blob>): ImageLibrary =>
+  Object.fromEntries(Object.entries(images).map(([name, blob]) => [normalizeImageKey(name), blob]));
+
+export const mergeImageLibraries = (...libraries: ImageLibrary[]): ImageLibrary => Object.assign({}, ...libraries);
+
+// "rasmlar/yurak.PNG" ham, "yurak.png" ham bir xil rasmga ishora qiladi
+export const resolveQuestionImage = (image: string | undefined, library: ImageLibrary): Blob | undefined =>
+  image ? library[normalizeImageKey(image)] : undefined;
+
+// Rasmi ko'rsatilgan, lekin kutubxonada topilmagan savollar
+export const getMissingImageQuestions = (questions: Question[], library: ImageLibrary): Question[] =>
+  questions.filter((q) => q.image && !resolveQuestionImage(q.image, library));
+
+// Yuborishdan oldin rasm faylini savolga biriktirish
+export const attachQuestionImages = (questions: Question[], library: ImageLibrary): Question[] =>
+  questions.map((q) => {
+    const imageBlob = resolveQuestionImage(q.image, library);
+    return imageBlob ? { ...q, imageBlob } : q;
+  });
+
+// Kutubxonadan olingan bankdagi savollarga biriktirilgan rasmlardan kutubxona yig'ish
+export const collectQuestionImages = (questions: Question[]): ImageLibrary =>
+  questions.reduce<ImageLibrary>((library, q) => {
+    if (q.image && q.imageBlob) library[normalizeImageKey(q.image)] = q.imageBlob;
+    return library;
+  }, {});
+
+// --- xlsx ichiga joylashtirilgan rasmlar ---
+
+type ZipContainer = ReturnType<typeof XLSX.CFB.read>;
+
+const readZipText = (zip: ZipContainer, path: string): string | null => {
+  const entry = XLSX.CFB.find(zip, `/${path}`);
+  return entry ? new TextDecoder('utf-8').decode(new Uint8Array(entry.content)) : null;
+};
+
+// "../media/image1.png" kabi nisbiy yo'lni arxiv ichidagi to'liq yo'lga aylantirish
+const resolveZipPath = (baseDir: string, target: string): string => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = baseDir.split('/').filter(Boolean);
+  for (const part of target.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+};
+
+// _rels faylidagi Id -> Target
+const readRelationships = (zip: ZipContainer, partPath: string): Record<string, string> => {
+  const dir = partPath.slice(0, partPath.lastIndexOf('/'));
+  const file = partPath.slice(partPath.lastIndexOf('/') + 1);
+  const xml = readZipText(zip, `${dir}/_rels/${file}.rels`) || '';
+  const relationships: Record<string, string> = {};
+  for (const [tag] of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = /\bId="([^"]+)"/.exec(tag)?.[1];
+    const target = /\bTarget="([^"]+)"/.exec(tag)?.[1];
+    if (id && target) relationships[id] = resolveZipPath(dir, target);
+  }
+  return relationships;
+};
+
+// Birinchi varaqqa joylashtirilgan rasmlar: Excel qator raqami (1 dan) -> rasm nomi va rasm.
+// Nom papkadagi fayllar bilan to'qnashmasligi uchun qator raqami qo'shiladi: "5-qator-image1.png".
+export const extractXlsxImages = (buffer: ArrayBuffer): Record<number, { name: string; blob: Blob }> => {
+  const zip = XLSX.CFB.read(new Uint8Array(buffer), { type: 'buffer' });
+  const images: Record<number, { name: string; blob: Blob }> = {};
+
+  // Birinchi varaq fayli workbook.xml dagi tartib bo'yicha aniqlanadi
+  const workbookXml = readZipText(zip, 'xl/workbook.xml') || '';
+  const firstSheetId = /<(?:\w+:)?sheet\b[^>]*\br:id="([^"]+)"/.exec(workbookXml)?.[1];
+  const sheetPath = firstSheetId ? readRelationships(zip, 'xl/workbook.xml')[firstSheetId] : undefined;
+  if (!sheetPath) return images;
+
+  for (const drawingPath of Object.values(readRelationships(zip, sheetPath))) {
+    if (!/\/drawings\/[^/]+\.xml$/.test(drawingPath)) continue;
+    const drawingXml = readZipText(zip, drawingPath);
+    if (!drawingXml) continue;
+    const drawingRels = readRelationships(zip, drawingPath);
+
+    for (const [anchor] of drawingXml.matchAll(/<xdr:(?:twoCellAnchor|oneCellAnchor)\b[\s\S]*?<\/xdr:(?:twoCellAnchor|oneCellAnchor)>/g)) {
+      const row = /<xdr:from>[\s\S]*?<xdr:row>(\d+)<\/xdr:row>/.exec(anchor)?.[1];
+      const embedId = /<a:blip\b[^>]*\br:embed="([^"]+)"/.exec(anchor)?.[1];
+      const mediaPath = embedId ? drawingRels[embedId] : undefined;
+      const media = mediaPath ? XLSX.CFB.find(zip, `/${mediaPath}`) : null;
+      if (row === undefined || !mediaPath || !media) continue;
+
+      // Bitta qatorda bir nechta rasm bo'lsa birinchisi olinadi
+      const rowNumber = parseInt(row, 10) + 1;
+      if (images[rowNumber]) continue;
+
+      const extension = mediaPath.split('.').pop()?.toLowerCase() || '';
+      images[rowNumber] = {
+        name: `${rowNumber}-qator-${baseName(mediaPath)}`,
+        blob: new Blob([new Uint8Array(media.content)], { type: MIME_TYPES[extension] || 'application/octet-stream' }),
+      };
+    }
+  }
+
+  return images;
+};
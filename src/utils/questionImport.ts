@@ -0,0 +1,98 @@
+import { QuestionParseResult, SavedColumnMappings } from '../types';
+import { parseExcelFileInWorker, isExcelWorkerSupported, MAX_WORKER_EXCEL_FILE_SIZE, ParseFileOptions } from './excelWorker';
+import { parseHtmlQuizFile } from './htmlQuizParser';
+import { parseHemisFile } from './hemisParser';
+import { parseCsvFile } from './csvFormat';
+import { parseJsonBundleFile } from './jsonBundle';
+import { parseGiftFile } from './giftFormat';
+import { parseAikenFile } from './aikenFormat';
+import { parseMoodleXmlFile } from './moodleXmlFormat';
+import { readTextFile } from './textEncoding';
+
+// Yuklash maydoni qabul qiladigan fayl kengaytmalari
+export const SUPPORTED_QUESTION_FILE_EXTENSIONS = [
+  '.xlsx',
+  '.xls',
+  '.html',
+  '.htm',
+  '.txt',
+  '.docx',
+  '.csv',
+  '.tsv',
+  '.json',
+  '.gift',
+  '.xml',
+];
+
+// Boshqa formatlardagi fayllar asosiy oqimda o'qiladi
+export const MAX_QUESTION_FILE_SIZE = 10 * 1024 * 1024;
+
+export type TextQuestionFormat = 'hemis' | 'aiken' | 'gift';
+
+export const getFileExtension = (fileName: string): string => {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex === -1 ? '' : fileName.slice(dotIndex).toLowerCase();
+};
+
+export const isSupportedQuestionFile = (file: File): boolean =>
+  SUPPORTED_QUESTION_FILE_EXTENSIONS.includes(getFileExtension(file.name));
+
+const isExcelFile = (file: File): boolean => ['.xlsx', '.xls'].includes(getFileExtension(file.name));
+
+// Excel fayllar Web Worker'da o'qiladi - ular uchun hajm cheklovi kattaroq
+export const getMaxQuestionFileSize = (file: File): number =>
+  isExcelFile(file) && isExcelWorkerSupported() ? MAX_WORKER_EXCEL_FILE_SIZE : MAX_QUESTION_FILE_SIZE;
+
+// .txt fayllar HEMIS, Aiken yoki GIFT formatida bo'lishi mumkin - mazmuniga qarab aniqlaymiz
+export const detectTextQuestionFormat = (text: string): TextQuestionFormat => {
+  if (/^\s*(\+{4,}|={4,})\s*$/m.test(text)) return 'hemis';
+  if (/^\s*ANSWER\s*:\s*[A-Z]\s*$/im.test(text)) return 'aiken';
+  if (/^\s*::/m.test(text) || /\{\s*[=~][\s\S]*?\}/.test(text)) return 'gift';
+  return 'hemis';
+};
+
+const parseTextQuestionFile = async (file: File): Promise<QuestionParseResult> => {
+  const { text } = await readTextFile(file);
+  switch (detectTextQuestionFormat(text)) {
+    case 'aiken':
+      return parseAikenFile(file);
+    case 'gift':
+      return parseGiftFile(file);
+    default:
+      return parseHemisFile(file);
+  }
+};
+
+// Fayl kengaytmasiga qarab mos parserni tanlash.
+// savedMappings - jadval fayllari (Excel, CSV) uchun foydalanuvchi saqlagan ustun moslashlari,
+// options - Excel faylini o'qish jarayoni va bekor qilish (boshqa formatlar tez o'qiladi)
+export const parseQuestionFile = async (
+  file: File,
+  savedMappings: SavedColumnMappings = {},
+  options: ParseFileOptions = {}
+): Promise<QuestionParseResult> => {
+  switch (getFileExtension(file.name)) {
+    case '.html':
+    case '.htm':
+      return parseHtmlQuizFile(file);
+    case '.txt':
+      return parseTextQuestionFile(file);
+    case '.docx':
+      // HEMIS formati: savollar "++++", variantlar "====" bilan ajratilgan
+      return parseHemisFile(file);
+    case '.csv':
+    case '.tsv':
+      return parseCsvFile(file, savedMappings);
+    case '.json':
+      return parseJsonBundleFile(file);
+    case '.gift':
+      return parseGiftFile(file);
+    case '.xml':
+      return parseMoodleXmlFile(file);
+    case '.xlsx':
+    case '.xls':
+      return parseExcelFileInWorker(file, savedMappings, options);
+    default:
+      throw new Error(`Qo'llab-quvvatlanmaydigan fayl formati: ${file.name}`);
+  }
+};
@@ -0,0 +1,100 @@
+import { Question } from '../types';
+import { createIndexedDbStore } from './indexedDbStore';
+
+// Savollar kutubxonasi: bir nechta nomlangan bank brauzerning IndexedDB xotirasida saqlanadi,
+// sahifa yangilanganda ham yo'qolmaydi.
+
+const { runRequest, runAction: runLibraryAction } = createIndexedDbStore({
+  dbName: 'malak-question-library',
+  version: 1,
+  storeName: 'banks',
+  keyPath: 'id',
+  openErrorMessage: 'Kutubxonani ochib bo\'lmadi',
+  abortErrorMessage: 'Kutubxona tranzaksiyasi bekor qilindi',
+  logLabel: 'Savollar kutubxonasi xatosi',
+});
+
+export interface QuestionBank {
+  id: string;
+  name: string;
+  questions: Question[];
+  sourceFiles: string[]; // bankdagi savollar o'qilgan fayllar
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Poll yechimi yuborish paytidagi vaqtinchalik maydon - saqlanmaydi. Rasm (imageBlob) esa bank bilan
+// birga saqlanadi: IndexedDB Blob'ni saqlay oladi, xlsx ichidagi rasmlar sahifa yangilangandan keyin ham qoladi.
+const toStoredQuestion = (question: Question): Question => {
+  const stored = { ...question };
+  delete stored.pollStrategy;
+  return stored;
+};
+
+const collectSourceFiles = (questions: Question[]): string[] =>
+  Array.from(new Set(questions.flatMap((q) => (q.sourceFile ? [q.sourceFile] : []))));
+
+// Yangi saqlanganlar birinchi
+export const listQuestionBanks = (): Promise<QuestionBank[]> =>
+  runLibraryAction(async () => {
+    const banks = await runRequest<QuestionBank[]>('readonly', (store) => store.getAll());
+    return banks.sort((a, b) => b.updatedAt - a.updatedAt);
+  }, 'Kutubxonani o\'qishda xato');
+
+export const saveQuestionBank = (name: string, questions: Question[]): Promise<QuestionBank> =>
+  runLibraryAction(async () => {
+    const bankName = name.trim();
+    if (!bankName) throw new Error('Bank nomi bo\'sh bo\'lmasligi kerak');
+    if (questions.length === 0) throw new Error('Saqlash uchun savollar yo\'q');
+
+    const now = Date.now();
+    const storedQuestions = questions.map(toStoredQuestion);
+    const bank: QuestionBank = {
+      id: crypto.randomUUID(),
+      name: bankName,
+      questions: storedQuestions,
+      sourceFiles: collectSourceFiles(storedQuestions),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await runRequest('readwrite', (store) => store.put(bank));
+    return bank;
+  }, 'Bankni saqlashda xato');
+
+export const renameQuestionBank = (bank: QuestionBank, name: string): Promise<QuestionBank> =>
+  runLibraryAction(async () => {
+    const bankName = name.trim();
+    if (!bankName) throw new Error('Bank nomi bo\'sh bo\'lmasligi kerak');
+    const renamed = { ...bank, name: bankName, updatedAt: Date.now() };
+    await runRequest('readwrite', (store) => store.put(renamed));
+    return renamed;
+  }, 'Bank nomini o\'zgartirishda xato');
+
+export const deleteQuestionBank = (id: string): Promise<void> =>
+  runLibraryAction(async () => {
+    await runRequest('readwrite', (store) => store.delete(id));
+  }, 'Bankni o\'chirishda xato');
+
+// Banklarni bittaga birlashtirish. Har bir savol o'z manba fayli va qator raqamini saqlab qoladi,
+// shuning uchun "5-qator" birlashtirilgandan keyin ham qaysi faylga tegishliligi aniq.
+export const mergeQuestionBanks = (banks: QuestionBank[], name: string): Promise<QuestionBank> =>
+  runLibraryAction(async () => {
+    if (banks.length < 2) throw new Error('Birlashtirish uchun kamida 2 ta bank tanlang');
+    const questions = banks.flatMap((bank) =>
+      // Manbasi noma'lum savollar uchun bank nomi manba sifatida olinadi
+      bank.questions.map((q) => (q.sourceFile ? q : { ...q, sourceFile: bank.name }))
+    );
+    return saveQuestionBank(name, questions);
+  }, 'Banklarni birlashtirishda xato');
+
+// Bank nomi, manba fayllari yoki savol matni bo'yicha qidirish
+export const searchQuestionBanks = (banks: QuestionBank[], query: string): QuestionBank[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return banks;
+  return banks.filter(
+    (bank) =>
+      bank.name.toLowerCase().includes(needle) ||
+      bank.sourceFiles.some((file) => file.toLowerCase().includes(needle)) ||
+      bank.questions.some((q) => q.question.toLowerCase().includes(needle))
+  );
+};
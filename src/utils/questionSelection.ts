@@ -0,0 +1,106 @@
+import { Question, QuestionSelection, SelectionStrategy } from '../types';
+import { createSeededRandom, generateSeed, shuffleArray } from './shuffle';
+import { collapseDuplicateGroups } from './duplicateDetection';
+import { getQuestionKey } from './questionSource';
+
+export const RANDOM_SELECTION: SelectionStrategy = { mode: 'random' };
+
+// Bitta sessiyada yuboriladigan savollar soni chegarasi
+export const MAX_SESSION_QUESTIONS = 100;
+
+export const SELECTION_MODE_LABELS: Record<QuestionSelection['mode'], string> = {
+  random: 'Tasodifiy',
+  seeded: 'Tasodifiy (seed bilan)',
+  sequential: 'Ketma-ket',
+  rowRange: "Qatorlar oralig'i",
+  everyKth: 'Har k-savol',
+  manual: "Qo'lda tanlangan",
+};
+
+// Usul tanlanganda boshlang'ich qiymatlar
+export const createSelectionStrategy = (mode: SelectionStrategy['mode']): SelectionStrategy => {
+  switch (mode) {
+    case 'seeded':
+      return { mode, seed: generateSeed() };
+    case 'sequential':
+      return { mode, offset: 1 };
+    case 'rowRange':
+      return { mode, fromRow: 2, toRow: 51 };
+    case 'everyKth':
+      return { mode, step: 2, offset: 1 };
+    default:
+      return RANDOM_SELECTION;
+  }
+};
+
+// Savollar soni usulning o'zidan kelib chiqadimi (sozlamadagi son e'tiborsiz qoladi)
+export const isFixedCountSelection = (selection: QuestionSelection): boolean =>
+  selection.mode === 'manual' || selection.mode === 'rowRange';
+
+// Qatorlar oralig'i, qo'lda tanlov yoki tarkib chegaradan ko'p savol berishi mumkin - yuborishdan oldin ko'rsatiladi
+export const getSessionCountError = (count: number): string | null => {
+  if (count > MAX_SESSION_QUESTIONS) {
+    return `Bir sessiyada ko'pi bilan ${MAX_SESSION_QUESTIONS} ta savol yuborish mumkin, tanlangan: ${count} ta`;
+  }
+  return null;
+};
+
+export interface SelectionResult {
+  questions: Question[];
+  description: string; // boshlang'ich xabarda ko'rsatiladi - shu tavsif bo'yicha tanlovni takrorlash mumkin
+}
+
+const shuffleWithSeed = (questions: Question[], seed: number): Question[] =>
+  shuffleArray(questions, createSeededRandom(seed));
+
+// Sessiya savollarini tanlash. Har qanday usulda ham har bir dublikatlar klasteridan bitta (birinchi) savol qoladi.
+// Oddiy tasodifiy tanlov ham yangi seed bilan bajariladi - tavsifdagi seed orqali aynan takrorlanadi.
+export const selectSessionQuestions = (
+  questions: Question[],
+  requestedCount: number,
+  selection: QuestionSelection = RANDOM_SELECTION
+): SelectionResult => {
+  const take = (pool: Question[]) => collapseDuplicateGroups(pool).slice(0, requestedCount);
+
+  switch (selection.mode) {
+    case 'random': {
+      const seed = generateSeed();
+      return {
+        questions: take(shuffleWithSeed(questions, seed)),
+        description: `${SELECTION_MODE_LABELS.random} (seed: ${seed})`,
+      };
+    }
+    case 'seeded':
+      return {
+        questions: take(shuffleWithSeed(questions, selection.seed)),
+        description: `${SELECTION_MODE_LABELS.random} (seed: ${selection.seed})`,
+      };
+    case 'sequential':
+      return {
+        questions: take(questions.slice(Math.max(0, selection.offset - 1))),
+        description: `${SELECTION_MODE_LABELS.sequential}, ${selection.offset}-savoldan`,
+      };
+    case 'rowRange':
+      return {
+        questions: collapseDuplicateGroups(
+          questions.filter((q) => q.rowNumber >= selection.fromRow && q.rowNumber <= selection.toRow)
+        ),
+        description: `Qatorlar ${selection.fromRow}-${selection.toRow}`,
+      };
+    case 'everyKth': {
+      const start = Math.max(0, selection.offset - 1);
+      const step = Math.max(1, selection.step);
+      return {
+        questions: take(questions.filter((_, index) => index >= start && (index - start) % step === 0)),
+        description: `Har ${step}-savol, ${selection.offset}-savoldan`,
+      };
+    }
+    case 'manual': {
+      const byKey = new Map(questions.map((q) => [getQuestionKey(q), q]));
+      return {
+        questions: collapseDuplicateGroups(selection.keys.flatMap((key) => byKey.get(key) || [])),
+        description: SELECTION_MODE_LABELS.manual,
+      };
+    }
+  }
+};
@@ -0,0 +1,9 @@
+import { Question } from '../types';
+
+// Bir nechta bank birlashtirilganda qator raqamlari takrorlanadi - savol manba fayli bilan birga aniqlanadi
+export const getQuestionKey = (question: Question): string =>
+  question.sourceFile ? `${question.sourceFile}#${question.rowNumber}` : String(question.rowNumber);
+
+// "savollar.xlsx, 12-qator" yoki manba noma'lum bo'lsa "Qator 12"
+export const formatQuestionSource = (question: Question): string =>
+  question.sourceFile ? `${question.sourceFile}, ${question.rowNumber}-qator` : `Qator ${question.rowNumber}`;
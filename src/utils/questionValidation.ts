@@ -0,0 +1,222 @@
+import { Question, QuestionDraft, QuestionParseResult, ValidationIssue, ValidationSeverity, ParseError } from '../types';
+import { TELEGRAM_POLL_LIMITS } from './telegramLimits';
+import {
+  correctAnswerFields,
+  getCorrectAnswers,
+  isCorrectOption,
+  joinCorrectAnswers,
+  splitCorrectAnswers,
+} from './correctAnswers';
+import { DIFFICULTY_LABELS, parseDifficulty, parseTags } from './sessionBlueprint';
+import { cleanText, findMatchingIndex, normalizeForMatch } from './textNormalization';
+
+// Telegram poll cheklovlari: savol 300, variant 100 belgi, variantlar soni 2-10
+export const MAX_QUESTION_LENGTH = TELEGRAM_POLL_LIMITS.question;
+export const MAX_OPTION_LENGTH = TELEGRAM_POLL_LIMITS.option;
+export const MIN_OPTIONS = TELEGRAM_POLL_LIMITS.minOptions;
+export const MAX_OPTIONS = TELEGRAM_POLL_LIMITS.maxOptions;
+export const MAX_EXPLANATION_LENGTH = TELEGRAM_POLL_LIMITS.explanation;
+const RECOMMENDED_OPTIONS = 4;
+
+export const PLACEHOLDER_WRONG_OPTION = "Noto'g'ri javob";
+
+export const SEVERITY_LABELS: Record<ValidationSeverity, string> = {
+  error: 'Xato',
+  warning: 'Ogohlantirish',
+  fix: 'Avto-tuzatish',
+};
+
+export const toErrorIssues = (errors: ParseError[]): ValidationIssue[] =>
+  errors.map((error) => ({ ...error, severity: 'error' }));
+
+// Telegramga yuborish mumkin bo'lgan savolning tuzilma qoidalari (MultiUserQuizManager va
+// savollar muharriri shu qoidalar bo'yicha tekshiradi). Bo'sh ro'yxat - savol yaroqli.
+export const getQuestionStructureErrors = (question: Question): string[] => {
+  if (!question || typeof question !== 'object') return ['Savol obyekt emas'];
+  const errors: string[] = [];
+
+  if (!question.question || typeof question.question !== 'string' || !question.question.trim()) {
+    errors.push("Savol bo'sh");
+  }
+  if (!Array.isArray(question.options)) {
+    return [...errors, "Javob variantlari noto'g'ri formatda"];
+  }
+  if (question.options.length < MIN_OPTIONS || question.options.length > MAX_OPTIONS) {
+    errors.push(`Variantlar soni ${MIN_OPTIONS}-${MAX_OPTIONS} orasida bo'lishi kerak (hozir ${question.options.length} ta)`);
+  }
+  if (!question.options.every((opt) => typeof opt === 'string' && opt.trim().length > 0)) {
+    errors.push("Bo'sh javob varianti bor");
+  }
+  if (!question.correctAnswer || typeof question.correctAnswer !== 'string') {
+    errors.push("To'g'ri javob belgilanmagan");
+  } else if (!getCorrectAnswers(question).every((answer) => findMatchingIndex(question.options, answer) !== -1)) {
+    errors.push("To'g'ri javob variantlar orasida topilmadi");
+  }
+  if (typeof question.rowNumber !== 'number') {
+    errors.push("Qator raqami noto'g'ri");
+  }
+
+  return errors;
+};
+
+// Qabul qilingan savol uchun ogohlantirishlar (kam variant, uzun matn, uzun izoh)
+export const getQuestionWarnings = (question: Question): ValidationIssue[] => {
+  const row = question.rowNumber;
+  const warnings: ValidationIssue[] = [];
+
+  if (question.options.length < RECOMMENDED_OPTIONS) {
+    warnings.push({ row, severity: 'warning', message: 'Kam variantli test', details: `${question.options.length} ta variant` });
+  }
+  if (question.options.every((opt) => isCorrectOption(question, opt))) {
+    warnings.push({ row, severity: 'warning', message: "Barcha variantlar to'g'ri javob", details: `${question.options.length} ta variant` });
+  }
+  if (question.question.length > MAX_QUESTION_LENGTH) {
+    warnings.push({
+      row,
+      severity: 'warning',
+      message: 'Savol matni juda uzun',
+      details: `${question.question.length} belgi, Telegram cheklovi ${MAX_QUESTION_LENGTH}`,
+    });
+  }
+  question.options
+    .filter((opt) => opt.length > MAX_OPTION_LENGTH)
+    .forEach((opt) => {
+      warnings.push({
+        row,
+        severity: 'warning',
+        message: 'Javob varianti juda uzun',
+        details: `"${opt.slice(0, 40)}..." - ${opt.length} belgi, Telegram cheklovi ${MAX_OPTION_LENGTH}`,
+      });
+    });
+  if (question.explanation && question.explanation.length > MAX_EXPLANATION_LENGTH) {
+    warnings.push({
+      row,
+      severity: 'warning',
+      message: 'Izoh juda uzun',
+      details: `${question.explanation.length} belgi, Telegram cheklovi ${MAX_EXPLANATION_LENGTH} - izoh alohida xabarda yuboriladi`,
+    });
+  }
+
+  return warnings;
+};
+
+// Jadval qatori (Savol | To'g'ri javob | Muqobil javoblar) qoidalari bo'yicha tekshirish.
+// To'g'ri javob katagida ";;" bilan ajratilgan bir nechta javob bo'lsa - ko'p javobli savol.
+// parseQuestionRows va hisobotdagi "tuzatish" tugmasi shu funksiyadan foydalanadi.
+export const validateQuestionDraft = (draft: QuestionDraft): { question: Question | null; issues: ValidationIssue[] } => {
+  const row = draft.row;
+  const questionText = cleanText(draft.question);
+  const correctAnswers = splitCorrectAnswers(String(draft.correctAnswer || ''));
+  const correctAnswer = correctAnswers[0];
+  const explanation = cleanText(draft.explanation || '');
+  const image = cleanText(draft.image || '');
+  const topic = cleanText(draft.topic || '');
+  const difficultyValue = String(draft.difficulty || '').trim();
+  const difficulty = difficultyValue ? parseDifficulty(difficultyValue) : undefined;
+  const tags = parseTags(String(draft.tags || ''));
+  const issues: ValidationIssue[] = [];
+
+  // Validatsiya: Savol va to'g'ri javob bo'sh bo'lmasligi kerak
+  if (!questionText) {
+    issues.push({ row, severity: 'error', message: 'Savol bo\'sh' });
+  }
+  if (!correctAnswer) {
+    issues.push({ row, severity: 'error', message: 'To\'g\'ri javob bo\'sh' });
+  }
+  if (issues.length > 0) {
+    return { question: null, issues };
+  }
+
+  // Muqobil javoblar: bo'shlari tashlanadi, takrorlari bitta qilinadi. Apostrof turi yoki ko'rinmas
+  // belgi bilan farq qiladigan variantlar ham takror hisoblanadi (normalizeForMatch kaliti bo'yicha)
+  const correctKeys = new Set(correctAnswers.map(normalizeForMatch));
+  const options = new Map<string, string>();
+  for (const option of draft.options) {
+    const optionValue = cleanText(String(option || ''));
+    if (optionValue.length === 0) continue;
+    const key = normalizeForMatch(optionValue);
+    if (options.has(key) || correctKeys.has(key)) {
+      issues.push({ row, severity: 'warning', message: 'Takrorlangan javob varianti', details: `Qiymat: "${optionValue}"` });
+      continue;
+    }
+    options.set(key, optionValue);
+  }
+
+  // To'g'ri javob(lar)ni qo'shish - to'g'ri javob ustunidagi yozilishi saqlanadi
+  correctAnswers.forEach((answer) => options.set(normalizeForMatch(answer), answer));
+
+  let optionArray = Array.from(options.values());
+  const autoFixed = optionArray.length < MIN_OPTIONS;
+
+  if (optionArray.length > MAX_OPTIONS) {
+    issues.push({
+      row,
+      severity: 'error',
+      message: 'Javob variantlari juda ko\'p',
+      details: `${optionArray.length} ta, Telegram cheklovi ${MAX_OPTIONS}`,
+    });
+    return { question: null, issues };
+  }
+
+  // Qiyinlik tanilmasa savol qabul qilinadi, lekin tarkib bo'yicha tanlashda "Istalgan" bo'lib qoladi
+  if (difficultyValue && !difficulty) {
+    issues.push({
+      row,
+      severity: 'warning',
+      message: 'Qiyinlik darajasi tanilmadi',
+      details: `Qiymat: "${difficultyValue}", kutilgan: ${Object.values(DIFFICULTY_LABELS).join(', ')}`,
+    });
+  }
+
+  // Takrorlangan javoblar tufayli kam variantli test
+  if (autoFixed) {
+    // 2 tadan kam variant bo'lsa, minimal 2 variant yaratish
+    optionArray = [correctAnswer, PLACEHOLDER_WRONG_OPTION];
+    issues.push({
+      row,
+      severity: 'fix',
+      message: 'Noto\'g\'ri variant avtomatik qo\'shildi',
+      details: `Qiymat: "${PLACEHOLDER_WRONG_OPTION}"`,
+    });
+  }
+
+  const question: Question = {
+    question: questionText,
+    ...correctAnswerFields(correctAnswers),
+    options: optionArray,
+    rowNumber: row,
+    ...(explanation ? { explanation } : {}),
+    ...(image ? { image } : {}),
+    ...(topic ? { topic } : {}),
+    ...(difficulty ? { difficulty } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+  };
+
+  // Avtomatik tuzatilgan savol uchun "kam variant" ogohlantirishi ortiqcha
+  const warnings = getQuestionWarnings(question).filter(
+    (warning) => !autoFixed || warning.message !== 'Kam variantli test'
+  );
+
+  return { question, issues: [...issues, ...warnings] };
+};
+
+// Savoldan tahrirlash uchun qoralama yasash
+export const questionToDraft = (question: Question): QuestionDraft => ({
+  row: question.rowNumber,
+  question: question.question,
+  correctAnswer: joinCorrectAnswers(question),
+  options: question.options.filter((opt) => !isCorrectOption(question, opt)),
+  explanation: question.explanation,
+  image: question.image,
+  topic: question.topic,
+  difficulty: question.difficulty ? DIFFICULTY_LABELS[question.difficulty] : undefined,
+  tags: question.tags?.join(', '),
+});
+
+// Boshqa formatlardan o'qilgan savollar uchun natija yig'ish: xatolar + ogohlantirishlar.
+// Bu formatlarda rad etilgan qatorning xom matni saqlanmaydi, shuning uchun qoralama yo'q.
+export const buildParseResult = (questions: Question[], errors: ParseError[]): QuestionParseResult => ({
+  questions,
+  issues: [...toErrorIssues(errors), ...questions.flatMap(getQuestionWarnings)].sort((a, b) => a.row - b.row),
+  drafts: [],
+});
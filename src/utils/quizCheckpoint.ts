@@ -0,0 +1,54 @@
+import { Question } from '../types';
+import { PollCollectorSnapshot } from './telegramService';
+import { QuizRunOptions, QuizTarget } from './quizRunner';
+import { createIndexedDbStore } from './indexedDbStore';
+
+// Ishlayotgan test holati har bir savoldan keyin IndexedDB'ga yoziladi:
+// sahifa tasodifan yangilansa test shu joydan davom ettiriladi yoki yig'ilgan natijalar bilan yakunlanadi.
+
+export interface ShuffledOptions {
+  options: string[];
+  correctIndices: number[];
+}
+
+export interface QuizCheckpoint {
+  id: string; // sessionId
+  target: QuizTarget; // ishtirokchilar (guruhda javob berganlar ham) boshlanish vaqtlari bilan
+  options: Pick<QuizRunOptions, 'intervalSeconds' | 'showRowNumber' | 'multiAnswerScoring'>;
+  selectionDescription: string;
+  questions: Question[]; // sessiya uchun tanlangan savollar, yuborish tartibida
+  shuffles: ShuffledOptions[]; // yuborilgan savollardagi variantlar tartibi
+  collector: PollCollectorSnapshot; // poll IDlar va ballar
+  updateOffset?: number;
+  nextQuestionIndex: number; // shu savoldan davom ettiriladi
+  deferredMessages: string[]; // kanalda oxirida yuboriladigan izohlar
+  startedAt: number;
+  updatedAt: number;
+}
+
+const { runRequest, runAction: runCheckpointAction } = createIndexedDbStore({
+  dbName: 'malak-quiz-sessions',
+  version: 1,
+  storeName: 'checkpoints',
+  keyPath: 'id',
+  openErrorMessage: 'Sessiyalar xotirasini ochib bo\'lmadi',
+  abortErrorMessage: 'Sessiya tranzaksiyasi bekor qilindi',
+  logLabel: 'Sessiya checkpoint xatosi',
+});
+
+export const saveQuizCheckpoint = (checkpoint: QuizCheckpoint): Promise<void> =>
+  runCheckpointAction(async () => {
+    await runRequest('readwrite', (store) => store.put(checkpoint));
+  }, 'Sessiya holatini saqlashda xato');
+
+// Yakunlanmay qolgan sessiyalar, oxirgi yangilanganlari birinchi
+export const listQuizCheckpoints = (): Promise<QuizCheckpoint[]> =>
+  runCheckpointAction(async () => {
+    const checkpoints = await runRequest<QuizCheckpoint[]>('readonly', (store) => store.getAll());
+    return checkpoints.sort((a, b) => b.updatedAt - a.updatedAt);
+  }, 'Saqlangan sessiyalarni o\'qishda xato');
+
+export const deleteQuizCheckpoint = (id: string): Promise<void> =>
+  runCheckpointAction(async () => {
+    await runRequest('readwrite', (store) => store.delete(id));
+  }, 'Sessiya holatini o\'chirishda xato');
@@ -0,0 +1,80 @@
+// Ishlayotgan testni to'xtatish va pauza qilish.
+// Yuborish zanjiridagi kutishlar (delay, javob kutish) va so'rovlar (makeRequestWithRetry) shu boshqaruvni tekshiradi:
+// to'xtatilganda darhol xato bilan chiqiladi, pauzada esa keyingi qadam davom ettirilguncha kutadi.
+
+export const QUIZ_STOPPED_MESSAGE = "Test to'xtatildi";
+
+export class QuizControl {
+  private readonly abortController = new AbortController();
+  private paused = false;
+  private resumeListeners: Set<() => void> = new Set();
+
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  get isStopped(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  pause(): void {
+    if (!this.isStopped) {
+      this.paused = true;
+    }
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.releaseWaiters();
+  }
+
+  stop(): void {
+    this.paused = false;
+    this.abortController.abort();
+    this.releaseWaiters();
+  }
+
+  throwIfStopped(): void {
+    if (this.isStopped) {
+      throw new Error(QUIZ_STOPPED_MESSAGE);
+    }
+  }
+
+  // Navbatdagi qadamdan oldin: to'xtatilgan bo'lsa xato, pauzada bo'lsa davom ettirilguncha kutish
+  async checkpoint(): Promise<void> {
+    this.throwIfStopped();
+    while (this.paused) {
+      await new Promise<void>((resolve) => this.resumeListeners.add(resolve));
+      this.throwIfStopped();
+    }
+  }
+
+  // To'xtatilganda darhol uziladigan kutish
+  sleep(ms: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.isStopped) {
+        reject(new Error(QUIZ_STOPPED_MESSAGE));
+        return;
+      }
+      const handleAbort = () => {
+        clearTimeout(timer);
+        reject(new Error(QUIZ_STOPPED_MESSAGE));
+      };
+      const timer = setTimeout(() => {
+        this.signal.removeEventListener('abort', handleAbort);
+        resolve();
+      }, ms);
+      this.signal.addEventListener('abort', handleAbort, { once: true });
+    });
+  }
+
+  private releaseWaiters(): void {
+    const listeners = Array.from(this.resumeListeners);
+    this.resumeListeners.clear();
+    listeners.forEach((resolve) => resolve());
+  }
+}
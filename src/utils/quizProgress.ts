@@ -0,0 +1,96 @@
+import { QuizProgressEvent, QuizRunResult, QuizTargetKind, getUserDisplayName } from './quizRunner';
+
+// Ishlayotgan testning jonli holati: QuizRunner hodisalaridan yig'iladi va panelda ko'rsatiladi
+
+export interface LiveParticipant {
+  userId: string;
+  name: string;
+  scores: Record<number, number>; // questionIndex -> ball (0..1); javob bermagan savol yo'q
+}
+
+export interface LiveQuizState {
+  sessionId: string;
+  target: QuizTargetKind;
+  questionCount: number;
+  current: { index: number; text: string; deadline?: number } | null; // kanalda deadline yo'q
+  delivery: Record<string, boolean>; // joriy savol: chatId -> yetkazildimi
+  participants: LiveParticipant[];
+  result: QuizRunResult | null;
+}
+
+export interface LeaderboardEntry {
+  userId: string;
+  name: string;
+  score: number;
+  answeredCount: number;
+}
+
+const upsertParticipant = (
+  participants: LiveParticipant[],
+  userId: string,
+  name: string,
+  update: (participant: LiveParticipant) => LiveParticipant
+): LiveParticipant[] => {
+  const existing = participants.find((p) => p.userId === userId);
+  if (!existing) {
+    return [...participants, update({ userId, name, scores: {} })];
+  }
+  return participants.map((p) => (p.userId === userId ? update(p) : p));
+};
+
+export const applyProgressEvent = (state: LiveQuizState | null, event: QuizProgressEvent): LiveQuizState | null => {
+  if (event.type === 'start') {
+    return {
+      sessionId: event.sessionId,
+      target: event.target,
+      questionCount: event.questionCount,
+      current: null,
+      delivery: {},
+      participants: event.participants.map((participant) => ({
+        userId: participant.userId,
+        name: getUserDisplayName(participant),
+        scores: { ...event.answers[participant.userId] },
+      })),
+      result: null,
+    };
+  }
+  if (!state) return state;
+
+  switch (event.type) {
+    case 'question':
+      return {
+        ...state,
+        current: { index: event.questionIndex, text: event.question, deadline: event.deadline },
+        delivery: {},
+      };
+    case 'delivery':
+      return { ...state, delivery: { ...state.delivery, [event.chatId]: event.delivered } };
+    case 'answer':
+      // Guruhda ishtirokchi birinchi javobi bilan paydo bo'ladi
+      return {
+        ...state,
+        participants: upsertParticipant(
+          state.participants,
+          event.participant.userId,
+          getUserDisplayName(event.participant),
+          (participant) => ({ ...participant, scores: { ...participant.scores, [event.questionIndex]: event.score } })
+        ),
+      };
+    case 'finish':
+      return { ...state, current: null, result: event.result };
+  }
+};
+
+// Ball bo'yicha, teng bo'lsa ko'proq javob berganlar oldinda
+export const getLiveLeaderboard = (state: LiveQuizState): LeaderboardEntry[] =>
+  state.participants
+    .map(({ userId, name, scores }) => {
+      const values = Object.values(scores);
+      return {
+        userId,
+        name,
+        score: Math.round(values.reduce((sum, score) => sum + score, 0) * 100) / 100,
+        answeredCount: values.length,
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.answeredCount - a.answeredCount);
@@ -0,0 +1,671 @@
+import {
+  Question,
+  TelegramConfig,
+  TestResult,
+  MultiAnswerScoring,
+  SessionBlueprint,
+  QuestionSelection,
+} from '../types';
+import { buildPollExplanation } from './telegramLimits';
+import { getCorrectAnswers } from './correctAnswers';
+import { shuffleArray } from './shuffle';
+import { cleanText, findMatchingIndex } from './textNormalization';
+import { TelegramUser } from './telegramUpdates';
+import {
+  TelegramAPI,
+  PollResultsCollector,
+  MultiUserQuizManager,
+  UserInfo,
+  UserResult,
+  delay,
+  escapeHtml,
+} from './telegramService';
+import { QuizControl } from './quizControl';
+import { MAX_SESSION_QUESTIONS } from './questionSelection';
+import { QuizCheckpoint, ShuffledOptions, deleteQuizCheckpoint, saveQuizCheckpoint } from './quizCheckpoint';
+
+// Test kimga yuboriladi: shaxsiy chat, foydalanuvchilar ro'yxati, guruh yoki kanal.
+// Turi ID ko'rinishidan (@, -100...) emas, getChat javobidan aniqlanadi
+export type QuizTargetKind = 'private' | 'userList' | 'group' | 'channel';
+
+export interface QuizTarget {
+  kind: QuizTargetKind;
+  chatIds: string[]; // xabarlar va pollar yuboriladigan chatlar
+  participants: UserInfo[]; // oldindan ma'lum ishtirokchilar; guruhda javob berganlar test davomida qo'shiladi
+}
+
+export const QUIZ_TARGET_LABELS: Record<QuizTargetKind, string> = {
+  private: 'Shaxsiy chat',
+  userList: "Foydalanuvchilar ro'yxati",
+  group: 'Guruh',
+  channel: 'Kanal',
+};
+
+export interface QuizRunOptions {
+  requestedCount: number;
+  intervalSeconds?: number;
+  showRowNumber?: boolean;
+  multiAnswerScoring?: MultiAnswerScoring;
+  blueprint?: SessionBlueprint;
+  selection?: QuestionSelection;
+  control?: QuizControl; // to'xtatish va pauza
+}
+
+export interface QuizRunResult {
+  sessionId: string;
+  target: QuizTargetKind;
+  result: TestResult; // ko'p ishtirokchida - umumiy yig'indi
+  rankings: UserResult[];
+  stopped: boolean; // to'xtatilgan bo'lsa natijalar faqat yuborilgan savollar bo'yicha
+}
+
+// Jonli holat uchun hodisalar: savol yuborildi, har bir chatga yetkazilish holati, kelgan javob, yakun.
+// deadline - joriy savol vaqti tugaydigan payt (ms), qolgan vaqt shundan hisoblanadi.
+// Kanalda javob kutilmaydi, shuning uchun deadline yuborilmaydi
+export type QuizProgressEvent =
+  | {
+      type: 'start';
+      sessionId: string;
+      target: QuizTargetKind;
+      questionCount: number;
+      participants: UserInfo[];
+      answers: Record<string, Record<number, number>>; // davom ettirilgan testda oldingi javoblar
+    }
+  | { type: 'question'; questionIndex: number; question: string; deadline?: number }
+  | { type: 'delivery'; questionIndex: number; chatId: string; delivered: boolean }
+  | { type: 'answer'; questionIndex: number; participant: UserInfo; score: number }
+  | { type: 'finish'; result: QuizRunResult };
+
+// Test bosqichlari kuzatuvchilari - har qanday target turida bir xil chaqiriladi
+export interface QuizRunnerHooks {
+  onStart?: (session: { sessionId: string; questions: Question[]; target: QuizTarget }) => void;
+  onQuestion?: (questionIndex: number, question: Question) => void;
+  onAnswer?: (userId: string, questionIndex: number, score: number) => void;
+  onFinish?: (result: QuizRunResult) => void;
+  onProgress?: (event: QuizProgressEvent) => void;
+}
+
+const BATCH_SIZE = 10;
+
+const formatExplanationMessage = (questionIndex: number, explanation: string): string =>
+  `💡 <b>${questionIndex + 1}-savol izohi:</b>\n${escapeHtml(explanation)}`;
+
+export const getUserDisplayName = (userInfo: UserInfo): string => {
+  if (userInfo.firstName && userInfo.lastName) return `${userInfo.firstName} ${userInfo.lastName}`;
+  if (userInfo.firstName) return userInfo.firstName;
+  if (userInfo.username) return `@${userInfo.username}`;
+  return `User${userInfo.userId.slice(-4)}`;
+};
+
+const generateRankingMessage = (rankings: UserResult[]): string => {
+  let message = `
+🏆 <b>TEST NATIJALARI VA REYTING</b>
+📊 <b>Ishtirokchilar reytingi:</b>
+`.trim();
+
+  rankings.forEach((result, index) => {
+    const emoji = index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `${index + 1}.`;
+    const name = getUserDisplayName(result.userInfo);
+    const completionTimeMin = Math.floor(result.completionTime / 60);
+    const completionTimeSec = result.completionTime % 60;
+
+    message += `
+${emoji} <b>${name}</b>
+   💯 ${result.percentage.toFixed(1)}% (${result.correct}/${result.total})
+   ⏱ ${completionTimeMin}:${completionTimeSec.toString().padStart(2, '0')}
+`;
+  });
+
+  const averagePercentage = rankings.length > 0 ? (rankings.reduce((sum, r) => sum + r.percentage, 0) / rankings.length).toFixed(1) : '0';
+  const minCompletionTime = rankings.length > 0 ? Math.min(...rankings.map((r) => r.completionTime)) : 0;
+
+  message += `
+📈 <b>Statistika:</b>
+• Eng yuqori natija: ${rankings[0]?.percentage.toFixed(1) || 0}%
+• O'rtacha natija: ${averagePercentage}%
+• Eng tez tugatgan: ${minCompletionTime}s
+🎉 Barcha ishtirokchilarga tabriklar!
+👨‍💻 @testoakbot | 📚 Bilimingizni oshirishda davom eting!
+`.trim();
+
+  return message;
+};
+
+const shuffleWithCorrectIndices = (
+  options: string[],
+  correctAnswers: string[]
+): { options: string[]; correctIndices: number[] } => {
+  const cleanOptions = options.map(cleanText).filter((opt) => opt.length > 0);
+
+  if (cleanOptions.length < 2) throw new Error('Kamida 2 ta javob variantlari kerak');
+  // Apostrof turi farq qilsa ham to'g'ri javob variant bilan moslanadi; poll'da variant matni ko'rsatiladi
+  if (!correctAnswers.every((answer) => findMatchingIndex(cleanOptions, answer) !== -1)) {
+    throw new Error('To\'g\'ri javob variantlar orasida topilmadi');
+  }
+
+  const shuffled = shuffleArray(cleanOptions);
+  const correctIndices = correctAnswers.map((answer) => findMatchingIndex(shuffled, answer)).sort((a, b) => a - b);
+
+  return { options: shuffled, correctIndices };
+};
+
+const toUserInfo = (user: TelegramUser, startTime: Date): UserInfo => ({
+  userId: user.id.toString(),
+  username: user.username,
+  firstName: user.first_name,
+  lastName: user.last_name,
+  startTime,
+  isActive: true,
+});
+
+const roundScore = (value: number): number => Math.round(value * 100) / 100;
+
+// Bir nechta ishtirokchi natijalarining umumiy yig'indisi
+const summarizeRankings = (rankings: UserResult[], total: number): TestResult => {
+  const correct = roundScore(rankings.reduce((sum, r) => sum + r.correct, 0));
+  const incorrect = roundScore(rankings.reduce((sum, r) => sum + r.incorrect, 0));
+  return {
+    correct,
+    incorrect,
+    total,
+    percentage: correct + incorrect > 0 ? (correct / (correct + incorrect)) * 100 : 0,
+  };
+};
+
+// Qabul qiluvchi turini getChat orqali aniqlash; vergul bilan ajratilgan IDlar - foydalanuvchilar ro'yxati
+export const resolveQuizTarget = async (api: TelegramAPI, recipient: string): Promise<QuizTarget> => {
+  const chatIds = recipient.split(',').map((id) => id.trim()).filter((id) => id);
+  if (chatIds.length === 0) throw new Error('Foydalanuvchi ID majburiy');
+
+  if (chatIds.length > 1) {
+    const participants: UserInfo[] = [];
+    for (const userId of chatIds) {
+      try {
+        participants.push(await api.getUserInfo(userId));
+      } catch (error) {
+        console.warn(`Foydalanuvchi ${userId} qo‘shilmadi:`, error);
+      }
+    }
+    if (participants.length === 0) throw new Error('Hech bir foydalanuvchi topilmadi');
+    return { kind: 'userList', chatIds: participants.map((p) => p.userId), participants };
+  }
+
+  const [chatId] = chatIds;
+  try {
+    const chat = await api.getChat(chatId);
+    switch (chat.type) {
+      case 'private':
+        return {
+          kind: 'private',
+          chatIds,
+          participants: [
+            {
+              userId: chatId,
+              username: chat.username,
+              firstName: chat.first_name,
+              lastName: chat.last_name,
+              startTime: new Date(),
+              isActive: true,
+            },
+          ],
+        };
+      case 'group':
+      case 'supergroup':
+        return { kind: 'group', chatIds, participants: [] };
+      case 'channel':
+        return { kind: 'channel', chatIds, participants: [] };
+      default:
+        throw new Error(`Noma'lum chat turi: ${chat.type}`);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Noma‘lum xato';
+    throw new Error(`${chatId} chatini aniqlab bo‘lmadi: ${errorMessage}`);
+  }
+};
+
+// Yagona test dvigateli: sessiya, savollarni yuborish, javoblarni kutish va yakuniy natijalar
+// barcha target turlari uchun shu yerda - farqlar faqat target.kind bo'yicha tanlanadi
+export class QuizRunner {
+  private readonly quizManager: MultiUserQuizManager;
+  private readonly interval: number;
+  private control?: QuizControl;
+  private sessionId = '';
+  private askedCount = 0; // polli yuborilgan savollar soni
+  private shuffles: ShuffledOptions[] = [];
+  private deferredMessages: string[] = [];
+
+  constructor(
+    private api: TelegramAPI,
+    private readonly target: QuizTarget,
+    questions: Question[],
+    private readonly options: QuizRunOptions,
+    private readonly hooks: QuizRunnerHooks = {}
+  ) {
+    this.quizManager = new MultiUserQuizManager(questions);
+    this.interval = Math.max(1, Math.min(options.intervalSeconds ?? 45, 300));
+    this.control = options.control;
+  }
+
+  async run(): Promise<QuizRunResult> {
+    const { requestedCount, blueprint, selection } = this.options;
+
+    return this.execute(async () => {
+      this.sessionId = this.quizManager.createSession(requestedCount, blueprint, selection);
+      const session = this.quizManager.requireSession(this.sessionId);
+      for (const participant of this.target.participants) {
+        await this.quizManager.addParticipant(this.sessionId, participant);
+      }
+
+      await this.broadcast(this.buildStartMessage(session.questions.length, session.selectionDescription));
+      return 0;
+    });
+  }
+
+  // Sahifa yangilanishidan oldin saqlangan nuqtadan davom ettirish
+  async resume(checkpoint: QuizCheckpoint): Promise<QuizRunResult> {
+    return this.execute(async (collector) => {
+      await this.restoreCheckpoint(checkpoint, collector);
+      await this.broadcast(
+        `🔄 <b>Test davom ettirilmoqda!</b>\n\n` +
+          `Keyingi savol: <b>${checkpoint.nextQuestionIndex + 1}/${checkpoint.questions.length}</b>`
+      );
+      return checkpoint.nextQuestionIndex;
+    });
+  }
+
+  // Saqlangan sessiyani davom ettirmasdan, shu paytgacha yig'ilgan natijalar bilan yakunlash
+  async finalize(checkpoint: QuizCheckpoint): Promise<QuizRunResult> {
+    const collector = this.createCollector();
+    try {
+      await this.restoreCheckpoint(checkpoint, collector);
+      return await this.finishStopped(collector);
+    } finally {
+      collector.dispose();
+    }
+  }
+
+  private createCollector(): PollResultsCollector {
+    return new PollResultsCollector(this.api, this.options.multiAnswerScoring, (user, questionIndex, score) =>
+      this.handleAnswer(user, questionIndex, score)
+    );
+  }
+
+  // Umumiy ish jarayoni: prepare sessiyani tayyorlab, birinchi yuboriladigan savol indeksini qaytaradi
+  private async execute(prepare: (collector: PollResultsCollector) => Promise<number>): Promise<QuizRunResult> {
+    const collector = this.createCollector();
+
+    try {
+      const firstIndex = await prepare(collector);
+      const session = this.quizManager.requireSession(this.sessionId);
+      await this.saveCheckpoint(collector, firstIndex);
+      this.hooks.onStart?.({ sessionId: this.sessionId, questions: session.questions, target: this.target });
+      this.emit({
+        type: 'start',
+        sessionId: this.sessionId,
+        target: this.target.kind,
+        questionCount: session.questions.length,
+        participants: Array.from(session.participants.values()),
+        answers: collector.snapshot().results,
+      });
+      await delay(2000, this.control);
+
+      for (let i = firstIndex; i < session.questions.length; i++) {
+        await this.control?.checkpoint();
+        this.hooks.onQuestion?.(i, session.questions[i]);
+        const followUpMessage = await this.askQuestion(collector, session.questions, i);
+        if (followUpMessage) {
+          // Kanalda javob kutilmaydi - uzun izohlar javoblarni oldindan ochib qo'ymasligi uchun oxirida yuboriladi
+          if (this.target.kind === 'channel') {
+            this.deferredMessages.push(followUpMessage);
+          } else {
+            await this.broadcast(followUpMessage);
+          }
+        }
+        await this.saveCheckpoint(collector, i + 1);
+      }
+
+      const runResult = this.collectResults(collector, false);
+      await this.sendFinishMessages(runResult, this.deferredMessages);
+      await this.removeCheckpoint();
+      this.hooks.onFinish?.(runResult);
+      this.emit({ type: 'finish', result: runResult });
+      return runResult;
+    } catch (error) {
+      if (this.control?.isStopped && this.sessionId) {
+        return this.finishStopped(collector);
+      }
+      // Checkpoint o'chirilmaydi - tarmoq xatosidan keyin testni davom ettirish mumkin
+      const errorMessage = error instanceof Error ? error.message : 'Noma‘lum xato';
+      try {
+        await this.broadcast(
+          `❌ <b>Xato yuz berdi:</b>
+
+${errorMessage}
+
+💡 <i>Iltimos, qaytadan urinib ko‘ring.</i>`
+        );
+      } catch (notifyError) {
+        console.warn('Xato haqida xabar yuborilmadi:', notifyError);
+      }
+      throw new Error(`Quiz yuborishda xato: ${errorMessage}`);
+    } finally {
+      collector.dispose();
+    }
+  }
+
+  // Har bir savoldan keyin holat IndexedDB'ga yoziladi. Saqlab bo'lmasa test to'xtamaydi
+  private async saveCheckpoint(collector: PollResultsCollector, nextQuestionIndex: number): Promise<void> {
+    const { showRowNumber, multiAnswerScoring } = this.options;
+    try {
+      const session = this.quizManager.requireSession(this.sessionId);
+      await saveQuizCheckpoint({
+        id: this.sessionId,
+        target: { ...this.target, participants: Array.from(session.participants.values()) },
+        options: { intervalSeconds: this.interval, showRowNumber, multiAnswerScoring },
+        selectionDescription: session.selectionDescription,
+        questions: session.questions,
+        shuffles: this.shuffles,
+        collector: collector.snapshot(),
+        updateOffset: this.api.updates.currentOffset,
+        nextQuestionIndex,
+        deferredMessages: this.deferredMessages,
+        startedAt: session.startTime.getTime(),
+        updatedAt: Date.now(),
+      });
+    } catch (error) {
+      console.warn('Sessiya holati saqlanmadi:', error);
+    }
+  }
+
+  private async removeCheckpoint(): Promise<void> {
+    try {
+      await deleteQuizCheckpoint(this.sessionId);
+    } catch (error) {
+      console.warn("Sessiya holati o'chirilmadi:", error);
+    }
+  }
+
+  private async restoreCheckpoint(checkpoint: QuizCheckpoint, collector: PollResultsCollector): Promise<void> {
+    this.sessionId = checkpoint.id;
+    this.quizManager.restoreSession(
+      checkpoint.id,
+      checkpoint.questions,
+      checkpoint.selectionDescription,
+      new Date(checkpoint.startedAt)
+    );
+    for (const participant of checkpoint.target.participants) {
+      await this.quizManager.addParticipant(this.sessionId, participant);
+    }
+    collector.restore(checkpoint.collector);
+    this.api.updates.restoreOffset(checkpoint.updateOffset);
+    this.shuffles = [...checkpoint.shuffles];
+    this.deferredMessages = [...checkpoint.deferredMessages];
+    // nextQuestionIndex dagi savol uchun variantlar tartibi saqlangan bo'lsa, uning polli allaqachon yuborilgan
+    this.askedCount = Math.max(checkpoint.nextQuestionIndex, checkpoint.shuffles.length);
+  }
+
+  // Javob bermagan ishtirokchilar ham natijalarda 0 ball bilan qatnashadi
+  private collectResults(collector: PollResultsCollector, stopped: boolean): QuizRunResult {
+    const session = this.quizManager.requireSession(this.sessionId);
+    const results = collector.getResults();
+    const total = stopped ? this.askedCount : session.questions.length;
+    this.quizManager.setSessionResults(
+      this.sessionId,
+      new Map(Array.from(session.participants.keys()).map((userId) => [userId, results.get(userId) || new Map()])),
+      total
+    );
+    return { ...this.buildResult(total), stopped };
+  }
+
+  // To'xtatilgan test: ishtirokchilarga xabar va shu paytgacha yuborilgan savollar bo'yicha natijalar.
+  // Bu xabarlar to'xtatish boshqaruvisiz yuboriladi
+  private async finishStopped(collector: PollResultsCollector): Promise<QuizRunResult> {
+    this.api = this.api.detached();
+    this.control = undefined;
+
+    const runResult = this.collectResults(collector, true);
+    try {
+      await this.broadcast(
+        `⏹ <b>Test to‘xtatildi.</b>\n\n` +
+          `Ishtirokingiz uchun rahmat! Yuborilgan savollar: <b>${this.askedCount}</b> ta.`
+      );
+      const resultsMessage = this.askedCount > 0 ? this.buildResultsMessage(runResult) : null;
+      if (resultsMessage) {
+        await this.broadcast(resultsMessage);
+      }
+    } catch (notifyError) {
+      console.warn("To'xtatilganlik haqida xabar yuborilmadi:", notifyError);
+    }
+
+    await this.removeCheckpoint();
+    this.hooks.onFinish?.(runResult);
+    this.emit({ type: 'finish', result: runResult });
+    return runResult;
+  }
+
+  // Bitta savolni barcha chatlarga yuborish va javoblarni kutish; javobdan keyin yuboriladigan izoh qaytariladi
+  private async askQuestion(
+    collector: PollResultsCollector,
+    questions: Question[],
+    index: number
+  ): Promise<string | undefined> {
+    const current = questions[index];
+    const { question, options, pollStrategy, imageBlob } = current;
+    // Sahifa yangilanishidan keyin qayta yuborilayotgan savol oldingi poll bilan bir xil tartibda bo'ladi
+    const shuffledData = this.shuffles[index] ?? shuffleWithCorrectIndices(options, getCorrectAnswers(current));
+    this.shuffles[index] = shuffledData;
+    const { explanation, followUpMessage } = buildPollExplanation(current, this.options.showRowNumber ?? true);
+    const position = `${index + 1}/${questions.length}`;
+    const isChannel = this.target.kind === 'channel';
+    this.emit({
+      type: 'question',
+      questionIndex: index,
+      question,
+      deadline: isChannel ? undefined : Date.now() + this.interval * 1000,
+    });
+
+    const sentTo = await this.forEachChat(async (chatId) => {
+      try {
+        if (imageBlob) {
+          await this.api.sendPhoto(chatId, imageBlob, `${position}-savol`);
+        }
+        const pollId = await this.api.sendPoll(
+          chatId,
+          `${position}. ${question}`,
+          shuffledData.options,
+          shuffledData.correctIndices,
+          this.interval,
+          explanation,
+          pollStrategy,
+          isChannel
+        );
+        collector.trackPoll(pollId, index, shuffledData.correctIndices);
+        this.emit({ type: 'delivery', questionIndex: index, chatId, delivered: true });
+      } catch (error) {
+        this.emit({ type: 'delivery', questionIndex: index, chatId, delivered: false });
+        throw error;
+      }
+    });
+    this.askedCount = index + 1;
+    // Yuborilgan pollar va variantlar tartibi javob kutishdan oldin saqlanadi: sahifa shu paytda yangilansa,
+    // oldingi pollga kelgan javoblar ham hisobga olinadi
+    await this.saveCheckpoint(collector, index);
+
+    if (isChannel) {
+      // Har bir savol orasida biroz vaqt kutamiz
+      await delay(1000, this.control);
+    } else {
+      // Guruh a'zolari oldindan ma'lum emas - poll vaqti tugaguncha kutiladi
+      await collector.waitForAnswers(index, this.target.kind === 'group' ? null : sentTo, this.interval, this.control);
+    }
+
+    return followUpMessage ? formatExplanationMessage(index, followUpMessage) : undefined;
+  }
+
+  private handleAnswer(user: TelegramUser, questionIndex: number, score: number): void {
+    const userId = user.id.toString();
+    const session = this.quizManager.getSession(this.sessionId);
+    // Guruhda ishtirokchi birinchi javobi bilan qo'shiladi
+    if (session && this.target.kind === 'group' && !session.participants.has(userId)) {
+      this.quizManager
+        .addParticipant(this.sessionId, toUserInfo(user, session.startTime))
+        .catch((error) => console.warn(`Ishtirokchi ${userId} qo‘shilmadi:`, error));
+    }
+    this.hooks.onAnswer?.(userId, questionIndex, score);
+    this.emit({
+      type: 'answer',
+      questionIndex,
+      participant: session?.participants.get(userId) || toUserInfo(user, new Date()),
+      score,
+    });
+  }
+
+  private emit(event: QuizProgressEvent): void {
+    this.hooks.onProgress?.(event);
+  }
+
+  private buildResult(total: number): QuizRunResult {
+    const rankings = this.quizManager.getRankings(this.sessionId);
+    let result: TestResult;
+
+    if (this.target.kind === 'private') {
+      const userResult = rankings[0];
+      if (!userResult) throw new Error('Natijalar topilmadi');
+      result = {
+        correct: userResult.correct,
+        incorrect: userResult.incorrect,
+        total: userResult.total,
+        percentage: userResult.percentage,
+      };
+    } else {
+      result = summarizeRankings(rankings, total);
+    }
+
+    return { sessionId: this.sessionId, target: this.target.kind, result, rankings, stopped: false };
+  }
+
+  private buildStartMessage(questionCount: number, selectionDescription: string): string {
+    const { kind, participants } = this.target;
+    return (
+      `📝 <b>Test boshlanmoqda!</b>\n\n` +
+      (kind === 'userList' ? `👥 Ishtirokchilar: <b>${participants.length}</b> kishi\n` : '') +
+      `🔢 Savollar soni: <b>${questionCount}</b>\n` +
+      `🎲 Tanlov: <b>${selectionDescription}</b>\n` +
+      `⏱ Har bir savol uchun vaqt: <b>${this.interval}</b> soniya\n` +
+      `📊 Jami test vaqti: <b>${Math.ceil((questionCount * this.interval) / 60)}</b> daqiqa\n` +
+      (kind === 'userList' || kind === 'group' ? `🏆 Oxirida reytingga ko‘ra natijalar e‘lon qilinadi!\n` : '') +
+      `\n✅ Tayyor bo‘lsangiz, birinchi savol kelyapti!`
+    );
+  }
+
+  // Natijalar xabari: shaxsiy chatda shaxsiy natija, ko'p ishtirokchida reyting; kanalda natija yo'q
+  private buildResultsMessage({ result, rankings, stopped }: QuizRunResult): string | null {
+    switch (this.target.kind) {
+      case 'private':
+        return (
+          `🏆 <b>Test natijalari:</b>\n\n` +
+          `✅ To‘g‘ri javoblar: ${result.correct} ta\n` +
+          `❌ Noto‘g‘ri javoblar: ${result.incorrect} ta\n` +
+          `📊 Jami: ${result.total} ta\n` +
+          `📈 Foiz: ${result.percentage.toFixed(1)}%` +
+          (stopped ? '' : `\n\n🎉 Test yakunlandi!`)
+        );
+      case 'channel':
+        return null;
+      default:
+        return generateRankingMessage(rankings);
+    }
+  }
+
+  private async sendFinishMessages(runResult: QuizRunResult, deferredMessages: string[]): Promise<void> {
+    await this.broadcast(
+      this.buildResultsMessage(runResult) ||
+        `🏆 <b>Test yakunlandi!</b>\n\n` + `Savollar tugadi. To'g'ri javoblarni o'zingiz tekshiring.`
+    );
+
+    for (const message of deferredMessages) {
+      await this.broadcast(message);
+    }
+  }
+
+  private async broadcast(message: string): Promise<void> {
+    await this.forEachChat((chatId) => this.api.sendMessage(chatId, message));
+  }
+
+  // Bitta chatda xato testni to'xtatadi; ro'yxatda esa chatlar 10 tadan yuboriladi va xato bo'lgani o'tkazib yuboriladi.
+  // Muvaffaqiyatli yuborilgan chatlar qaytariladi
+  private async forEachChat(action: (chatId: string) => Promise<void>): Promise<string[]> {
+    const { chatIds } = this.target;
+    if (chatIds.length === 1) {
+      await action(chatIds[0]);
+      return chatIds;
+    }
+
+    const succeeded: string[] = [];
+    for (let i = 0; i < chatIds.length; i += BATCH_SIZE) {
+      const batch = chatIds.slice(i, i + BATCH_SIZE);
+      await Promise.allSettled(
+        batch.map(async (chatId) => {
+          try {
+            await action(chatId);
+            succeeded.push(chatId);
+          } catch (error) {
+            console.warn(`Foydalanuvchi ${chatId}ga yuborilmadi:`, error);
+          }
+        })
+      );
+      await delay(1000, this.control);
+    }
+    return succeeded;
+  }
+}
+
+// Testni boshlash: qabul qiluvchi turi aniqlanadi va QuizRunner ishga tushiriladi
+export const runQuiz = async (
+  questions: Question[],
+  config: TelegramConfig,
+  options: QuizRunOptions,
+  hooks: QuizRunnerHooks = {}
+): Promise<QuizRunResult> => {
+  if (!config.botToken) throw new Error('Bot token majburiy');
+  if (!config.userId) throw new Error('Foydalanuvchi ID majburiy');
+  if (!questions || questions.length === 0) throw new Error('Savollar ro‘yxati bo‘sh');
+  if (options.requestedCount <= 0 || options.requestedCount > MAX_SESSION_QUESTIONS) {
+    throw new Error(`Savollar soni 1-${MAX_SESSION_QUESTIONS} orasida bo‘lishi kerak`);
+  }
+
+  const api = new TelegramAPI(config.botToken, options.control);
+  const target = await resolveQuizTarget(api, config.userId);
+
+  console.log('Quiz yuborilmoqda:', {
+    target: target.kind,
+    chatIds: target.chatIds,
+    questionCount: options.requestedCount,
+    intervalSeconds: options.intervalSeconds,
+  });
+
+  return new QuizRunner(api, target, questions, options, hooks).run();
+};
+
+// Sahifa yangilanishidan oldin saqlangan sessiya uchun runner
+const createCheckpointRunner = (
+  checkpoint: QuizCheckpoint,
+  config: TelegramConfig,
+  control?: QuizControl,
+  hooks: QuizRunnerHooks = {}
+): QuizRunner => {
+  if (!config.botToken) throw new Error('Bot token majburiy');
+  const api = new TelegramAPI(config.botToken, control);
+  const options: QuizRunOptions = { ...checkpoint.options, requestedCount: checkpoint.questions.length, control };
+  return new QuizRunner(api, checkpoint.target, checkpoint.questions, options, hooks);
+};
+
+export const resumeQuiz = async (
+  checkpoint: QuizCheckpoint,
+  config: TelegramConfig,
+  control?: QuizControl,
+  hooks: QuizRunnerHooks = {}
+): Promise<QuizRunResult> => createCheckpointRunner(checkpoint, config, control, hooks).resume(checkpoint);
+
+export const finalizeQuiz = async (checkpoint: QuizCheckpoint, config: TelegramConfig): Promise<QuizRunResult> =>
+  createCheckpointRunner(checkpoint, config).finalize(checkpoint);
@@ -0,0 +1,138 @@
+import { Question, QuestionDifficulty, SessionBlueprint, BlueprintRule } from '../types';
+import { shuffleArray } from './shuffle';
+import { collapseDuplicateGroups } from './duplicateDetection';
+
+export const DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  easy: 'Oson',
+  medium: "O'rta",
+  hard: 'Qiyin',
+};
+
+export const BLUEPRINT_DIFFICULTY_LABELS: Record<BlueprintRule['difficulty'], string> = {
+  ...DIFFICULTY_LABELS,
+  any: 'Istalgan',
+};
+
+const DIFFICULTY_ALIASES: Record<string, QuestionDifficulty> = {
+  oson: 'easy',
+  yengil: 'easy',
+  easy: 'easy',
+  '1': 'easy',
+  "o'rta": 'medium',
+  orta: 'medium',
+  medium: 'medium',
+  '2': 'medium',
+  qiyin: 'hard',
+  murakkab: 'hard',
+  hard: 'hard',
+  '3': 'hard',
+};
+
+// "Qiyinlik" katagini o'qish; tanilmagan qiymat uchun undefined
+export const parseDifficulty = (value: string): QuestionDifficulty | undefined =>
+  DIFFICULTY_ALIASES[value.trim().toLowerCase().replace(/[‘’ʻʼ`]/g, "'")];
+
+// "Teglar" katagi: vergul yoki nuqta-vergul bilan ajratilgan, takrorlari bitta qilinadi
+export const parseTags = (value: string): string[] =>
+  Array.from(
+    new Set(
+      value
+        .split(/[,;]/)
+        .map((tag) => tag.trim())
+        .filter((tag) => tag.length > 0)
+    )
+  );
+
+// Bankdagi mavzular va teglar (alifbo tartibida) - tarkib tuzish oynasi uchun
+export const getBankTopics = (questions: Question[]): string[] =>
+  Array.from(new Set(questions.flatMap((q) => (q.topic ? [q.topic] : [])))).sort((a, b) => a.localeCompare(b));
+
+export const getBankTags = (questions: Question[]): string[] =>
+  Array.from(new Set(questions.flatMap((q) => q.tags || []))).sort((a, b) => a.localeCompare(b));
+
+export const getBlueprintQuestionCount = (blueprint: SessionBlueprint): number =>
+  blueprint.rules.reduce((sum, rule) => sum + Math.max(0, rule.count), 0);
+
+// Mavzu va teg filtridan o'tgan savollar; har bir dublikatlar klasteridan bittasi olinadi
+export const filterBlueprintPool = (questions: Question[], blueprint: SessionBlueprint): Question[] =>
+  collapseDuplicateGroups(
+    questions.filter(
+      (q) =>
+        (blueprint.topics.length === 0 || (q.topic !== undefined && blueprint.topics.includes(q.topic))) &&
+        (blueprint.tags.length === 0 || (q.tags || []).some((tag) => blueprint.tags.includes(tag)))
+    )
+  );
+
+// Har bir qiyinlik darajasi bo'yicha kerakli savollar soni
+const countRequired = (blueprint: SessionBlueprint): Record<BlueprintRule['difficulty'], number> =>
+  blueprint.rules.reduce(
+    (acc, rule) => ({ ...acc, [rule.difficulty]: acc[rule.difficulty] + Math.max(0, rule.count) }),
+    { easy: 0, medium: 0, hard: 0, any: 0 } as Record<BlueprintRule['difficulty'], number>
+  );
+
+const describeFilter = (blueprint: SessionBlueprint): string => {
+  const parts = [
+    ...(blueprint.topics.length > 0 ? [`mavzular: ${blueprint.topics.join(', ')}`] : []),
+    ...(blueprint.tags.length > 0 ? [`teglar: ${blueprint.tags.join(', ')}`] : []),
+  ];
+  return parts.length > 0 ? ` (${parts.join('; ')})` : '';
+};
+
+// Bank tarkibni qanoatlantira olmasa - sabablar ro'yxati, aks holda bo'sh ro'yxat
+export const getBlueprintShortages = (questions: Question[], blueprint: SessionBlueprint): string[] => {
+  const total = getBlueprintQuestionCount(blueprint);
+  if (total === 0) {
+    return ['Tarkibda kamida bitta savol bo\'lishi kerak'];
+  }
+
+  const pool = filterBlueprintPool(questions, blueprint);
+  const required = countRequired(blueprint);
+  const shortages: string[] = [];
+  let usedBySpecific = 0;
+
+  (Object.keys(DIFFICULTY_LABELS) as QuestionDifficulty[]).forEach((difficulty) => {
+    if (required[difficulty] === 0) return;
+    const available = pool.filter((q) => q.difficulty === difficulty).length;
+    usedBySpecific += Math.min(required[difficulty], available);
+    if (available < required[difficulty]) {
+      shortages.push(
+        `${DIFFICULTY_LABELS[difficulty]}: ${required[difficulty]} ta kerak, bankda ${available} ta bor${describeFilter(blueprint)}`
+      );
+    }
+  });
+
+  // "Istalgan" savollar aniq darajalarga ajratilganlaridan qolganidan olinadi
+  const remaining = pool.length - usedBySpecific;
+  if (required.any > remaining) {
+    shortages.push(
+      `${BLUEPRINT_DIFFICULTY_LABELS.any}: ${required.any} ta kerak, qolgan savollar ${remaining} ta${describeFilter(blueprint)}`
+    );
+  }
+
+  return shortages;
+};
+
+// Tarkibga mos savollarni tasodifiy tanlash; bank yetmasa sababini tushuntiruvchi xato
+export const selectBlueprintQuestions = (questions: Question[], blueprint: SessionBlueprint): Question[] => {
+  const shortages = getBlueprintShortages(questions, blueprint);
+  if (shortages.length > 0) {
+    throw new Error(`Savollar banki tanlangan tarkibga yetmaydi:\n${shortages.join('\n')}`);
+  }
+
+  const pool = shuffleArray(filterBlueprintPool(questions, blueprint));
+  const required = countRequired(blueprint);
+  const selected = new Set<Question>();
+
+  (Object.keys(DIFFICULTY_LABELS) as QuestionDifficulty[]).forEach((difficulty) => {
+    pool
+      .filter((q) => q.difficulty === difficulty)
+      .slice(0, required[difficulty])
+      .forEach((q) => selected.add(q));
+  });
+  pool
+    .filter((q) => !selected.has(q))
+    .slice(0, required.any)
+    .forEach((q) => selected.add(q));
+
+  return shuffleArray(Array.from(selected));
+};
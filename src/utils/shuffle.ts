@@ -0,0 +1,24 @@
+// Fisher-Yates aralashtirish (asl massiv o'zgarmaydi).
+// random - 0..1 oralig'idagi son qaytaruvchi generator (takrorlanadigan tanlov uchun createSeededRandom)
+export const shuffleArray = <T>(array: T[], random: () => number = Math.random): T[] => {
+  const newArray = [...array];
+  for (let i = newArray.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
+  }
+  return newArray;
+};
+
+// Seed asosidagi tasodifiy sonlar generatori (mulberry32): bir xil seed - bir xil ketma-ketlik
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const generateSeed = (): number => Math.floor(Math.random() * 1000000);
@@ -0,0 +1,208 @@
+import { Question, PollIssueKind, PollIssueStrategy, PollStrategy } from '../types';
+import { getCorrectAnswers, isCorrectOption, isMultiAnswerQuestion } from './correctAnswers';
+import { getQuestionKey } from './questionSource';
+
+// Telegram Bot API sendPoll cheklovlari
+export const TELEGRAM_POLL_LIMITS = {
+  question: 300,
+  option: 100,
+  minOptions: 2,
+  maxOptions: 10,
+  explanation: 200,
+};
+
+export interface PollIssue {
+  kind: PollIssueKind;
+  message: string;
+  details?: string;
+  // Tanlash mumkin bo'lgan strategiyalar; birinchisi - standart
+  strategies: PollIssueStrategy[];
+}
+
+// Telegramga aynan nima yuborilishi: poll oldidan xabarlar va pollning o'zi
+export interface PollPlan {
+  questionMessage?: string; // 'split' - to'liq savol matni
+  optionsMessage?: string; // 'letters' - variantlar ro'yxati
+  question: string;
+  options: string[];
+  correctOptionIds: number[]; // Ko'p javobli savolda bir nechta indeks
+}
+
+// Poll izohi va (izoh sig'masa) poll yopilgandan keyin yuboriladigan xabar
+export interface PollExplanation {
+  explanation?: string;
+  followUpMessage?: string;
+}
+
+export const POLL_ISSUE_LABELS: Record<PollIssueKind, string> = {
+  'question-too-long': 'Savol juda uzun',
+  'option-too-long': 'Javob varianti juda uzun',
+  'too-many-options': "Variantlar juda ko'p",
+  'too-few-options': 'Variantlar juda kam',
+};
+
+export const POLL_STRATEGY_LABELS: Record<PollIssueStrategy, string> = {
+  split: "To'liq savolni alohida xabarda yuborish",
+  truncate: 'Qisqartirish',
+  letters: 'Variantlarni xabarda, pollda A/B/C',
+  trim: "Ortiqcha noto'g'ri variantlarni olib tashlash",
+  skip: "Savolni yubormaslik",
+};
+
+const OPTION_LETTERS = 'ABCDEFGHIJ';
+
+// "12/20. " kabi tartib raqami savol matniga qo'shiladi - uning uzunligini ham hisobga olamiz
+export const questionNumberPrefixLength = (questionCount: number): number =>
+  `${questionCount}/${questionCount}. `.length;
+
+export const truncateForTelegram = (text: string, maxLength: number): string =>
+  text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+
+const hasTruncationCollision = (options: string[]): boolean => {
+  const truncated = options.map((opt) => truncateForTelegram(opt, TELEGRAM_POLL_LIMITS.option));
+  return new Set(truncated).size !== truncated.length;
+};
+
+// Strategiya tanlanmagan bo'lsa - standart (birinchi) strategiya
+export const resolvePollStrategy = (issue: PollIssue, strategy: PollStrategy = {}): PollIssueStrategy => {
+  const chosen = strategy[issue.kind];
+  return chosen && issue.strategies.includes(chosen) ? chosen : issue.strategies[0];
+};
+
+export const getPollIssues = (question: Question, prefixLength: number = 0): PollIssue[] => {
+  const { question: text, options } = question;
+  const issues: PollIssue[] = [];
+
+  if (options.length < TELEGRAM_POLL_LIMITS.minOptions) {
+    issues.push({
+      kind: 'too-few-options',
+      message: POLL_ISSUE_LABELS['too-few-options'],
+      details: `${options.length} ta, kamida ${TELEGRAM_POLL_LIMITS.minOptions} ta kerak`,
+      strategies: ['skip'],
+    });
+  }
+  if (options.length > TELEGRAM_POLL_LIMITS.maxOptions) {
+    issues.push({
+      kind: 'too-many-options',
+      message: POLL_ISSUE_LABELS['too-many-options'],
+      details: `${options.length} ta, ko'pi bilan ${TELEGRAM_POLL_LIMITS.maxOptions} ta`,
+      strategies: ['trim', 'skip'],
+    });
+  }
+
+  const questionLength = text.length + prefixLength;
+  if (questionLength > TELEGRAM_POLL_LIMITS.question) {
+    issues.push({
+      kind: 'question-too-long',
+      message: POLL_ISSUE_LABELS['question-too-long'],
+      details: `${questionLength} belgi, cheklov ${TELEGRAM_POLL_LIMITS.question}`,
+      strategies: ['split', 'truncate', 'skip'],
+    });
+  }
+
+  const longOptions = options.filter((opt) => opt.length > TELEGRAM_POLL_LIMITS.option);
+  if (longOptions.length > 0) {
+    // Qisqartirilganda ikki variant bir xil ko'rinib qolsa, qisqartirish taklif qilinmaydi
+    const collision = hasTruncationCollision(options);
+    issues.push({
+      kind: 'option-too-long',
+      message: POLL_ISSUE_LABELS['option-too-long'],
+      details:
+        `${longOptions.length} ta variant ${TELEGRAM_POLL_LIMITS.option} belgidan uzun` +
+        (collision ? ', qisqartirilganda variantlar bir xil bo\'lib qoladi' : ''),
+      strategies: collision ? ['letters', 'skip'] : ['truncate', 'letters', 'skip'],
+    });
+  }
+
+  return issues;
+};
+
+// Savol va (aralashtirilgan) variantlardan Telegramga yuboriladigan ko'rinishni yasash.
+// TelegramAPI.sendPoll ham, oldindan ko'rish paneli ham shu funksiyadan foydalanadi.
+export const buildPollPlan = (
+  question: string,
+  options: string[],
+  correctOptionIds: number[],
+  strategy: PollStrategy = {}
+): PollPlan => {
+  const issues = getPollIssues({ question, options, correctAnswer: options[correctOptionIds[0]], rowNumber: 0 });
+  const chosen = (kind: PollIssueKind) => {
+    const issue = issues.find((i) => i.kind === kind);
+    return issue ? resolvePollStrategy(issue, strategy) : undefined;
+  };
+
+  const plan: PollPlan = {
+    question: truncateForTelegram(question, TELEGRAM_POLL_LIMITS.question),
+    options: options.map((opt) => truncateForTelegram(opt, TELEGRAM_POLL_LIMITS.option)),
+    correctOptionIds,
+  };
+
+  if (chosen('question-too-long') === 'split') {
+    plan.questionMessage = question;
+  }
+  if (chosen('option-too-long') === 'letters') {
+    plan.optionsMessage = options.map((opt, index) => `${OPTION_LETTERS[index]}. ${opt}`).join('\n');
+    plan.options = options.map((_, index) => OPTION_LETTERS[index]);
+  }
+
+  return plan;
+};
+
+const FOLLOW_UP_NOTE = 'Batafsil izoh keyingi xabarda yuboriladi.';
+
+// Savol izohi va qator raqamidan poll explanation yasash. Izoh 200 belgiga sig'masa,
+// pollda qisqa eslatma qoladi, sig'magan qism esa alohida xabar bilan yuboriladi.
+export const buildPollExplanation = (question: Question, showRowNumber: boolean): PollExplanation => {
+  const explanation = question.explanation?.trim() || '';
+  const fileText = question.sourceFile ? `"${question.sourceFile}" faylining` : 'Excel faylining';
+  const rowText = showRowNumber ? `Bu savol ${fileText} ${question.rowNumber}-qatorida joylashgan.` : '';
+  const full = [explanation, rowText].filter(Boolean).join('\n\n');
+
+  // Ko'p javobli savol oddiy poll bo'lib ketadi, unda izoh yo'q - to'g'ri javoblar ham xabarda yuboriladi
+  if (isMultiAnswerQuestion(question)) {
+    const answers = getCorrectAnswers(question).map((answer) => `• ${answer}`).join('\n');
+    return { followUpMessage: [`To'g'ri javoblar:\n${answers}`, full].filter(Boolean).join('\n\n') };
+  }
+
+  const fits = (text: string) => text.length <= TELEGRAM_POLL_LIMITS.explanation;
+  if (fits(full)) {
+    return full ? { explanation: full } : {};
+  }
+
+  const note = [FOLLOW_UP_NOTE, rowText].filter(Boolean).join('\n\n');
+  if (explanation && fits(note)) {
+    return { explanation: note, followUpMessage: explanation };
+  }
+
+  // Fayl nomi uzun bo'lsa qator ma'lumoti ham pollga sig'maydi - u keyingi xabarga o'tadi
+  if (explanation && fits(explanation)) {
+    return { explanation, followUpMessage: rowText };
+  }
+  return { explanation: FOLLOW_UP_NOTE, followUpMessage: full };
+};
+
+// Tanlangan strategiyalarni yuborishdan oldin qo'llash: "skip" savollar olib tashlanadi,
+// "trim" bo'lsa ortiqcha noto'g'ri variantlar kesiladi, qolganlari pollStrategy orqali sendPoll'ga o'tadi
+export const applyPollStrategies = (
+  questions: Question[],
+  strategies: Record<string, PollStrategy>,
+  prefixLength: number = 0
+): Question[] =>
+  questions.flatMap((question) => {
+    const strategy = strategies[getQuestionKey(question)] || {};
+    const resolved = getPollIssues(question, prefixLength).map((issue) => resolvePollStrategy(issue, strategy));
+    if (resolved.includes('skip')) return [];
+
+    let options = question.options;
+    if (resolved.includes('trim')) {
+      // To'g'ri javoblarning barchasi qoladi, noto'g'rilari esa sig'gancha
+      const keptWrong = new Set(
+        options
+          .filter((opt) => !isCorrectOption(question, opt))
+          .slice(0, Math.max(0, TELEGRAM_POLL_LIMITS.maxOptions - getCorrectAnswers(question).length))
+      );
+      options = options.filter((opt) => isCorrectOption(question, opt) || keptWrong.has(opt));
+    }
+
+    return [{ ...question, options, pollStrategy: strategy }];
+  });
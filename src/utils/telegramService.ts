@@ -1,4 +1,29 @@
-import { Question, TelegramConfig, TestResult } from '../types';
+import {
+  Question,
+  TestResult,
+  PollStrategy,
+  MultiAnswerScoring,
+  SessionBlueprint,
+  QuestionSelection,
+} from '../types';
+import { TELEGRAM_POLL_LIMITS, buildPollPlan } from './telegramLimits';
+import { scorePollAnswer } from './correctAnswers';
+import { MAX_PHOTO_SIZE } from './questionImages';
+import { getQuestionStructureErrors } from './questionValidation';
+import { selectBlueprintQuestions } from './sessionBlueprint';
+import { cleanText } from './textNormalization';
+import { selectSessionQuestions } from './questionSelection';
+import { QuizControl, QUIZ_STOPPED_MESSAGE } from './quizControl';
+import {
+  TelegramChat,
+  TelegramPollAnswer,
+  TelegramUpdate,
+  TelegramUpdateDispatcher,
+  TelegramUpdateType,
+  TelegramUser,
+  LONG_POLL_TIMEOUT_SECONDS,
+  getUpdateDispatcher,
+} from './telegramUpdates';
 
 // Telegram API response interface
 interface TelegramAPIResponse<T> {
@@ -18,6 +43,7 @@ interface TelegramAPIPayload {
   options?: string[];
   type?: string;
   correct_option_id?: number;
+  allows_multiple_answers?: boolean;
   is_anonymous?: boolean;
   protect_content?: boolean;
   open_period?: number;
@@ -29,7 +55,7 @@ interface TelegramAPIPayload {
 }
 
 // Foydalanuvchi ma'lumotlari uchun interface
-interface UserInfo {
+export interface UserInfo {
   userId: string;
   username?: string;
   firstName?: string;
@@ -55,6 +81,7 @@ interface QuizSession {
   isActive: boolean;
   startTime: Date;
   endTime?: Date;
+  selectionDescription: string; // savollar qanday tanlangani - boshlang'ich xabarda ko'rsatiladi
 }
 
 // Poll ma'lumotlari uchun interface
@@ -66,120 +93,158 @@ interface QuizSession {
 // }
 
 // PollResultsCollector klassi
-// Har bir foydalanuvchi uchun alohida poll IDlarni kuzatish
-interface UserPollState {
-  expectedPollId: string;
+// Yuborilgan har bir poll ID bo'yicha kuzatiladi: shaxsiy chatda har bir foydalanuvchining o'z polli,
+// guruhda esa bitta pollga istalgan a'zo javob beradi
+interface TrackedPoll {
   questionIndex: number;
-  correctOptionId: number;
-  isAnswered: boolean;
-  createdAt: number; // State yaratilgan vaqt
+  correctOptionIds: number[];
+  createdAt: number; // Poll kuzatila boshlangan vaqt
 }
 
-class PollResultsCollector {
-  private userStates: Map<string, UserPollState> = new Map(); // userId -> UserPollState
-  private results: Map<string, Map<number, boolean>> = new Map(); // userId -> (questionIndex -> isCorrect)
-  private readonly maxStateAge = 300000; // 5 minutes in milliseconds
-
-  constructor(private telegramAPI: TelegramAPI) {
-    // Clean up old states periodically
-    setInterval(() => this.cleanupOldStates(), 60000); // Every minute
-  }
+// Kollektor holati checkpoint uchun: kuzatilayotgan pollar va shu paytgacha olingan ballar
+export interface PollCollectorSnapshot {
+  polls: Array<{ pollId: string; questionIndex: number; correctOptionIds: number[] }>;
+  results: Record<string, Record<number, number>>; // userId -> (questionIndex -> ball)
+}
 
-  // Foydalanuvchi uchun kutish holatini o'rnatish
-  setUserPollState(userId: string, pollId: string, questionIndex: number, correctOptionId: number): void {
-    this.userStates.set(userId, {
-      expectedPollId: pollId,
-      questionIndex,
-      correctOptionId,
-      isAnswered: false,
-      createdAt: Date.now()
-    });
-    
-    // Foydalanuvchi uchun natijalar mapini yaratish (agar mavjud bo'lmasa)
+export type PollAnswerListener = (user: TelegramUser, questionIndex: number, score: number) => void;
+
+export class PollResultsCollector {
+  private polls: Map<string, TrackedPoll> = new Map(); // pollId -> TrackedPoll
+  private answered: Map<number, Set<string>> = new Map(); // questionIndex -> javob bergan userIdlar
+  private results: Map<string, Map<number, number>> = new Map(); // userId -> (questionIndex -> ball, 0..1)
+  private readonly maxPollAge = 600000; // 10 minutes in milliseconds
+  private readonly cleanupTimer: ReturnType<typeof setInterval>;
+  private readonly unsubscribe: () => void;
+  private onAnswer: (() => void) | null = null; // waitForAnswers kutayotgan bo'lsa
+
+  constructor(
+    telegramAPI: TelegramAPI,
+    private readonly scoring: MultiAnswerScoring = 'strict',
+    private readonly answerListener?: PollAnswerListener
+  ) {
+    // Javoblar bot tokenining umumiy dispetcheridan olinadi - kollektor o'zi getUpdates chaqirmaydi.
+    // Obuna butun test davomida turadi, shuning uchun savollar orasida kelgan javoblar ham yo'qolmaydi
+    this.unsubscribe = telegramAPI.updates.subscribe('poll_answer', (answer) => this.handlePollAnswer(answer));
+    // Clean up old polls periodically
+    this.cleanupTimer = setInterval(() => this.cleanupOldPolls(), 60000); // Every minute
+  }
+
+  // Yuborilgan pollni kuzatishga qo'shish
+  trackPoll(pollId: string, questionIndex: number, correctOptionIds: number[]): void {
+    this.polls.set(pollId, { questionIndex, correctOptionIds, createdAt: Date.now() });
+  }
+
+  private handlePollAnswer({ user, poll_id, option_ids }: TelegramPollAnswer): void {
+    const poll = this.polls.get(poll_id);
+    // Oddiy (ko'p javobli) pollda ovozni qaytarib olish bo'sh option_ids bilan keladi
+    if (!poll || option_ids.length === 0) return;
+
+    const userId = user.id.toString();
+    const answeredUsers = this.answered.get(poll.questionIndex) || new Set<string>();
+    if (answeredUsers.has(userId)) return;
+
+    // Tanlangan variantlar to'plamini to'g'ri javoblar bilan solishtirish
+    const score = scorePollAnswer(option_ids, poll.correctOptionIds, this.scoring);
     if (!this.results.has(userId)) {
       this.results.set(userId, new Map());
     }
-  }
-
-  // Bitta poll uchun foydalanuvchi javobini kutish
-  async waitForSinglePollResult(
-    userIds: string[],
-    timeoutSeconds: number
+    this.results.get(userId)!.set(poll.questionIndex, score);
+    answeredUsers.add(userId);
+    this.answered.set(poll.questionIndex, answeredUsers);
+
+    console.log(`Foydalanuvchi ${userId} javob berdi`);
+    this.answerListener?.(user, poll.questionIndex, score);
+    this.onAnswer?.();
+  }
+
+  // Savolga javob kutish: userIds berilsa hammasi javob berguncha, null bo'lsa (guruh) vaqt tugaguncha.
+  // Test to'xtatilsa kutish darhol tugaydi
+  async waitForAnswers(
+    questionIndex: number,
+    userIds: string[] | null,
+    timeoutSeconds: number,
+    control?: QuizControl
   ): Promise<boolean> {
-    console.log(`Bitta poll uchun javob kutish: ${userIds.length} foydalanuvchi`);
+    console.log(`${questionIndex + 1}-savol uchun javob kutish: ${userIds ? `${userIds.length} foydalanuvchi` : 'guruh'}`);
 
-    const startTime = Date.now();
     const timeoutMs = Math.min(timeoutSeconds * 1000, 300000); // Max 5 minutes
-    let offset: number | undefined = undefined;
 
     // Barcha foydalanuvchilar javob berganligini tekshirish
     const allUsersAnswered = () => {
-      for (const userId of userIds) {
-        const state = this.userStates.get(userId);
-        if (!state || !state.isAnswered) {
-          return false;
-        }
-      }
-      return true;
+      const answeredUsers = this.answered.get(questionIndex);
+      return !!userIds && userIds.every((userId) => answeredUsers?.has(userId));
     };
 
-    while (Date.now() - startTime < timeoutMs && !allUsersAnswered()) {
-      try {
-        const updates = await this.telegramAPI.getUpdates(offset, ['poll_answer']);
-        for (const update of updates) {
-          if (update.poll_answer) {
-            const { user, poll_id, option_ids } = update.poll_answer;
-            const userId = user.id.toString();
-            const state = this.userStates.get(userId);
-
-            // Agar bu foydalanuvchi kutayotgan poll bo'lsa
-            if (state && state.expectedPollId === poll_id && !state.isAnswered) {
-              // To'g'ri javobni tekshirish
-              const isCorrect = option_ids.includes(state.correctOptionId);
-              this.results.get(userId)!.set(state.questionIndex, isCorrect);
-              
-              // Foydalanuvchi javob bergan deb belgilash
-              state.isAnswered = true;
-              
-              console.log(`Foydalanuvchi ${userId} javob berdi`);
-            }
-
-            // Offset'ni yangilash
-            offset = update.update_id + 1;
-          }
-        }
-
-        // Agar hamma javob bermagan bo'lsa, biroz kutamiz
-        if (!allUsersAnswered()) {
-          await delay(1000);
-        }
-      } catch (error) {
-        console.warn('getUpdates xatosi:', error);
-        await delay(2000);
-      }
+    if (allUsersAnswered() || control?.isStopped) {
+      return allUsersAnswered();
     }
 
-    // Vaqt tugagan yoki hamma javob bergan
-    return allUsersAnswered();
+    // Vaqt tugaguncha yoki hamma javob berguncha kutamiz
+    return new Promise<boolean>((resolve) => {
+      const finish = () => {
+        clearTimeout(timer);
+        control?.signal.removeEventListener('abort', finish);
+        this.onAnswer = null;
+        resolve(allUsersAnswered());
+      };
+      const timer = setTimeout(finish, timeoutMs);
+      control?.signal.addEventListener('abort', finish);
+      this.onAnswer = () => {
+        if (allUsersAnswered()) {
+          finish();
+        }
+      };
+    });
   }
 
   // Barcha natijalarni olish
-  getResults(): Map<string, Map<number, boolean>> {
+  getResults(): Map<string, Map<number, number>> {
     return this.results;
   }
 
-  // Foydalanuvchi uchun kutish holatini tozalash
-  clearUserState(userId: string): void {
-    this.userStates.delete(userId);
+  snapshot(): PollCollectorSnapshot {
+    return {
+      polls: Array.from(this.polls.entries()).map(([pollId, { questionIndex, correctOptionIds }]) => ({
+        pollId,
+        questionIndex,
+        correctOptionIds,
+      })),
+      results: Object.fromEntries(
+        Array.from(this.results.entries()).map(([userId, scores]) => [userId, Object.fromEntries(scores)])
+      ),
+    };
+  }
+
+  // Checkpoint'dan tiklash: eski pollarga kechikib kelgan javoblar ham hisobga olinadi
+  restore({ polls, results }: PollCollectorSnapshot): void {
+    for (const { pollId, questionIndex, correctOptionIds } of polls) {
+      this.trackPoll(pollId, questionIndex, correctOptionIds);
+    }
+    for (const [userId, scores] of Object.entries(results)) {
+      const userResults = new Map(Object.entries(scores).map(([index, score]) => [Number(index), score]));
+      this.results.set(userId, userResults);
+      for (const questionIndex of userResults.keys()) {
+        const answeredUsers = this.answered.get(questionIndex) || new Set<string>();
+        answeredUsers.add(userId);
+        this.answered.set(questionIndex, answeredUsers);
+      }
+    }
   }
 
-  // Eski holatlarni tozalash
-  private cleanupOldStates(): void {
+  // Test tugagach dispetcher obunasi va davriy tozalash to'xtatiladi
+  dispose(): void {
+    this.unsubscribe();
+    clearInterval(this.cleanupTimer);
+  }
+
+  // Eski pollarni tozalash
+  private cleanupOldPolls(): void {
     const now = Date.now();
-    for (const [userId, state] of this.userStates.entries()) {
-      if (now - state.createdAt > this.maxStateAge) {
-        this.userStates.delete(userId);
-        console.log(`Eski poll holati o'chirildi: foydalanuvchi ${userId}`);
+    for (const [pollId, poll] of this.polls.entries()) {
+      if (now - poll.createdAt > this.maxPollAge) {
+        this.polls.delete(pollId);
+        console.log(`Eski poll kuzatuvdan chiqarildi: ${pollId}`);
       }
     }
   }
@@ -230,16 +295,22 @@ class RateLimiter {
 }
 
 // TelegramAPI klassi
-class TelegramAPI {
+export class TelegramAPI {
   private readonly baseUrl: string;
   private readonly rateLimiter: RateLimiter;
   private readonly maxRetries: number = 3;
 
-  constructor(private readonly token: string) {
+  // control berilsa barcha so'rovlar va qayta urinishlar orasidagi kutishlar to'xtatish/pauzaga bo'ysunadi
+  constructor(private readonly token: string, private readonly control?: QuizControl) {
     this.baseUrl = `https://api.telegram.org/bot${token}`;
     this.rateLimiter = new RateLimiter();
   }
 
+  // Boshqaruvsiz nusxa - test to'xtatilgandan keyin yakuniy xabarlarni yuborish uchun
+  detached(): TelegramAPI {
+    return new TelegramAPI(this.token);
+  }
+
   async sendMessage(chatId: string, text: string, parseMode: string = 'HTML'): Promise<void> {
     await this.rateLimiter.waitIfNeeded();
     const payload = {
@@ -255,84 +326,105 @@ class TelegramAPI {
     chatId: string,
     question: string,
     options: string[],
-    correctOptionId: number,
+    correctOptionIds: number[],
     openPeriod: number = 20,
-    rowNumber: number
+    explanation: string | undefined,
+    strategy: PollStrategy = {},
+    isAnonymous: boolean = false
   ): Promise<string> {
-    await this.rateLimiter.waitIfNeeded();
+    // Cheklovlardan oshgan savol/variantlar tanlangan strategiya bo'yicha tayyorlanadi
+    const plan = buildPollPlan(question, options, correctOptionIds, strategy);
 
-    // Uzun savolni xabar sifatida yuborish (endi cheklovni oshiramiz)
-    if (question.length > 300) {
-      await this.sendMessage(
-        chatId,
-        `<b>Savol: ${question}</b>\n\nJavob variantlarini quyidagi poll’da tanlang.`,
-        'HTML'
-      );
+    if (plan.options.length < TELEGRAM_POLL_LIMITS.minOptions || plan.options.length > TELEGRAM_POLL_LIMITS.maxOptions) {
+      throw new Error(`Poll variantlari soni 2-10 orasida bo'lishi kerak. Hozir: ${plan.options.length}`);
     }
 
-    // Savolni 300 belgigacha cheklash (Telegram API cheklovi)
-    const sanitizedQuestion = this.sanitizePollQuestion(question, 300);
-    const sanitizedOptions = this.sanitizePollOptions(options, 100); // Javoblarni 100 belgigacha cheklash (Telegram API cheklovi)
-
-    if (sanitizedOptions.length < 2 || sanitizedOptions.length > 10) {
-      throw new Error(`Poll variantlari soni 2-10 orasida bo'lishi kerak. Hozir: ${sanitizedOptions.length}`);
+    if (plan.correctOptionIds.length === 0 || plan.correctOptionIds.some((id) => id < 0 || id >= plan.options.length)) {
+      throw new Error(`To'g'ri javob indeksi noto'g'ri: ${plan.correctOptionIds.join(', ')}`);
     }
 
-    if (correctOptionId < 0 || correctOptionId >= sanitizedOptions.length) {
-      throw new Error(`To'g'ri javob indeksi noto'g'ri: ${correctOptionId}`);
+    // Uzun savolni to'liq holda alohida xabar sifatida yuborish
+    if (plan.questionMessage) {
+      await this.sendMessage(
+        chatId,
+        `<b>Savol: ${escapeHtml(plan.questionMessage)}</b>\n\nJavob variantlarini quyidagi poll’da tanlang.`,
+        'HTML'
+      );
     }
 
-    // Uzun javoblar uchun xabar yuborish
-    if (sanitizedOptions.some(opt => opt.length > 100)) {
-      const optionsMessage = sanitizedOptions
-        .map((opt, idx) => `${String.fromCharCode(65 + idx)}. ${opt}`)
-        .join('\n');
+    // Uzun javoblar uchun xabar yuborish - pollda faqat harflar qoladi
+    if (plan.optionsMessage) {
       await this.sendMessage(
         chatId,
-        `<b>Javob variantlari:</b>\n${optionsMessage}`,
+        `<b>Javob variantlari:</b>\n${escapeHtml(plan.optionsMessage)}`,
         'HTML'
       );
     }
 
-    // Kanallar va guruhlarga yuboriladigan pollar anonim bo'lishi kerak
-    const isChannelOrGroup = chatId.startsWith('@') || chatId.startsWith('-100') || chatId.startsWith('-');
+    await this.rateLimiter.waitIfNeeded();
+
+    // Quiz poll faqat bitta to'g'ri javobni qo'llaydi - ko'p javobli savol oddiy poll sifatida yuboriladi
+    const isMultiAnswer = plan.correctOptionIds.length > 1;
     
-    const payload = {
+    const payload: TelegramAPIPayload = {
       chat_id: chatId,
-      question: sanitizedQuestion,
-      options: sanitizedOptions,
-      type: 'quiz',
-      correct_option_id: correctOptionId,
-      is_anonymous: isChannelOrGroup, // Kanallar va guruhlar uchun true, oddiy foydalanuvchilar uchun false
+      question: plan.question,
+      options: plan.options,
+      type: isMultiAnswer ? 'regular' : 'quiz',
+      ...(isMultiAnswer ? { allows_multiple_answers: true } : { correct_option_id: plan.correctOptionIds[0] }),
+      is_anonymous: isAnonymous, // Kanal pollari anonim - ularga javoblar kelmaydi
       protect_content: true,
       open_period: Math.min(Math.max(openPeriod, 5), 200),
-      explanation: `Bu savol Excel faylining ${rowNumber}-qatorida joylashgan.`,
-      explanation_parse_mode: 'HTML',
+      // Oddiy pollda izoh bo'lmaydi - u buildPollExplanation orqali alohida xabarga o'tadi
+      ...(explanation && !isMultiAnswer ? { explanation: escapeHtml(explanation), explanation_parse_mode: 'HTML' } : {}),
     };
 
     const response = await this.makeRequestWithRetry<{ poll: { id: string } }>('sendPoll', payload);
     return response.result.poll.id;
   }
 
+  // Savol rasmini poll'dan oldin yuborish (Telegram poll'ga rasm biriktirib bo'lmaydi)
+  async sendPhoto(chatId: string, photo: Blob, caption?: string): Promise<void> {
+    if (photo.size > MAX_PHOTO_SIZE) {
+      throw new Error(`Rasm hajmi 10MB dan katta: ${(photo.size / 1024 / 1024).toFixed(1)}MB`);
+    }
+    await this.rateLimiter.waitIfNeeded();
+
+    const formData = new FormData();
+    formData.append('chat_id', chatId);
+    formData.append('photo', photo, photo instanceof File ? photo.name : 'rasm');
+    formData.append('protect_content', 'true');
+    if (caption) {
+      formData.append('caption', caption);
+    }
+    await this.makeRequestWithRetry('sendPhoto', formData);
+  }
+
+  // Chat turi (private, group, supergroup, channel) va nomi
+  async getChat(chatId: string): Promise<TelegramChat> {
+    await this.rateLimiter.waitIfNeeded();
+    const response = await fetch(`${this.baseUrl}/getChat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ chat_id: chatId }),
+      signal: this.control?.signal,
+    });
+
+    const data: TelegramAPIResponse<TelegramChat> = await response.json();
+    if (!data.ok) {
+      throw new Error(data.description || 'Chat topilmadi');
+    }
+    return data.result;
+  }
+
   async getUserInfo(userId: string): Promise<UserInfo> {
     try {
-      await this.rateLimiter.waitIfNeeded();
-      const response = await fetch(`${this.baseUrl}/getChat`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ chat_id: userId }),
-      });
-
-      const data = await response.json();
-      if (!data.ok) {
-        throw new Error(data.description || 'Foydalanuvchi ma\'lumotlari topilmadi');
-      }
-
+      const chat = await this.getChat(userId);
       return {
         userId,
-        username: data.result.username,
-        firstName: data.result.first_name,
-        lastName: data.result.last_name,
+        username: chat.username,
+        firstName: chat.first_name,
+        lastName: chat.last_name,
         startTime: new Date(),
         isActive: true,
       };
@@ -341,45 +433,57 @@ class TelegramAPI {
     }
   }
 
-  async getUpdates(offset?: number, allowedUpdates?: string[]): Promise<Array<{
-    update_id: number;
-    poll_answer?: {
-      user: { id: number };
-      poll_id: string;
-      option_ids: number[];
-    };
-  }>> {
+  // Long-polling: timeout soniya davomida yangi yangilanish kutiladi
+  async getUpdates(
+    offset?: number,
+    allowedUpdates: TelegramUpdateType[] = ['poll_answer'],
+    timeout: number = LONG_POLL_TIMEOUT_SECONDS,
+    signal?: AbortSignal
+  ): Promise<TelegramUpdate[]> {
     await this.rateLimiter.waitIfNeeded();
     const payload: TelegramAPIPayload = {
-      timeout: 30,
-      allowed_updates: allowedUpdates || ['poll_answer'],
+      timeout,
+      allowed_updates: allowedUpdates,
     };
-    if (offset) {
+    if (offset !== undefined) {
       payload.offset = offset;
     }
-    const response = await this.makeRequestWithRetry<Array<{
-      update_id: number;
-      poll_answer?: {
-        user: { id: number };
-        poll_id: string;
-        option_ids: number[];
-      };
-    }>>('getUpdates', payload);
+    // Umumiy dispetcherning long-pollingi bitta testning to'xtatilishiga bog'liq bo'lmasligi kerak
+    const response = await this.makeRequestWithRetry<TelegramUpdate[]>('getUpdates', payload, null, signal);
     return response.result;
   }
 
-  private async makeRequestWithRetry<T>(method: string, payload: TelegramAPIPayload): Promise<TelegramAPIResponse<T>> {
+  // Shu bot tokeni uchun umumiy yangilanishlar dispetcheri
+  get updates(): TelegramUpdateDispatcher {
+    return getUpdateDispatcher(this.token, (offset, allowedUpdates, timeout, signal) =>
+      this.getUpdates(offset, allowedUpdates, timeout, signal)
+    );
+  }
+
+  // FormData - fayl yuklanadigan so'rovlar uchun (sendPhoto); Content-Type'ni brauzer o'zi qo'yadi
+  private async makeRequestWithRetry<T>(
+    method: string,
+    payload: TelegramAPIPayload | FormData,
+    control: QuizControl | null = this.control || null,
+    signal: AbortSignal | undefined = control?.signal
+  ): Promise<TelegramAPIResponse<T>> {
     let lastError: Error | null = null;
+    const isMultipart = payload instanceof FormData;
 
     for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      // Pauzada so'rov davom ettirilguncha yuborilmaydi; to'xtatilgan bo'lsa xato chiqadi
+      await control?.checkpoint();
       try {
         const response = await fetch(`${this.baseUrl}/${method}`, {
           method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'User-Agent': 'TelegramBot/1.0',
-          },
-          body: JSON.stringify(payload),
+          headers: isMultipart
+            ? { 'User-Agent': 'TelegramBot/1.0' }
+            : {
+                'Content-Type': 'application/json',
+                'User-Agent': 'TelegramBot/1.0',
+              },
+          body: isMultipart ? payload : JSON.stringify(payload),
+          signal,
         });
 
         const data: TelegramAPIResponse<T> = await response.json();
@@ -388,12 +492,12 @@ class TelegramAPI {
             // Handle rate limiting
             const retryAfter = data.parameters?.retry_after || Math.pow(2, attempt);
             console.warn(`Rate limit exceeded. Waiting ${retryAfter} seconds before retry.`);
-            await delay(retryAfter * 1000);
+            await delay(retryAfter * 1000, control || undefined);
             continue;
           } else if (response.status >= 500) {
             // Server errors - retry
             console.warn(`Server error (${response.status}). Retrying...`);
-            await delay(Math.pow(2, attempt) * 1000);
+            await delay(Math.pow(2, attempt) * 1000, control || undefined);
             continue;
           }
           // Client errors - don't retry
@@ -401,10 +505,17 @@ class TelegramAPI {
         }
         return data;
       } catch (error) {
+        // To'xtatilgan so'rov qayta yuborilmaydi
+        if (control?.isStopped) {
+          throw new Error(QUIZ_STOPPED_MESSAGE);
+        }
+        if (signal?.aborted) {
+          throw error;
+        }
         lastError = error instanceof Error ? error : new Error('Noma\'lum xato');
         console.warn(`${method} urinish ${attempt}/${this.maxRetries} muvaffaqiyatsiz:`, lastError.message);
         if (attempt < this.maxRetries) {
-          await delay(Math.pow(2, attempt) * 1000);
+          await delay(Math.pow(2, attempt) * 1000, control || undefined);
         }
       }
     }
@@ -414,17 +525,6 @@ class TelegramAPI {
   private sanitizeText(text: string): string {
     return text.replace(/<(?!\/?(b|i|u|s|a|code|pre)\b)[^>]*>/gi, '').substring(0, 4096).trim();
   }
-
-  private sanitizePollQuestion(question: string, maxLength: number = 400): string {
-    return question.substring(0, maxLength).trim();
-  }
-
-  private sanitizePollOptions(options: string[], maxLength: number = 150): string[] {
-    return options
-      .filter((option) => option !== null && option !== undefined)
-      .map((option) => String(option).substring(0, maxLength).trim())
-      .filter((option) => option.length > 0);
-  }
 }
 
 // MultiUserQuizManager klassi
@@ -432,7 +532,7 @@ export class MultiUserQuizManager {
   private questions: Question[] = [];
   private sessions: Map<string, QuizSession> = new Map();
   private readonly maxSessions = 100; // Maximum number of sessions to keep
-  private readonly sessionTimeout = 3600000; // 1 hour in milliseconds
+  private readonly sessionTimeout = 3600000; // Tugagan sessiya shuncha vaqt saqlanadi (1 soat)
 
   constructor(questions: Question[]) {
     this.questions = this.validateAndCleanQuestions(questions);
@@ -445,28 +545,24 @@ export class MultiUserQuizManager {
   }
 
   private isValidQuestion(question: Question): boolean {
-    if (!question || typeof question !== 'object') return false;
-    if (!question.question || typeof question.question !== 'string') return false;
-    if (!Array.isArray(question.options) || question.options.length < 2 || question.options.length > 10) return false;
-    if (!question.correctAnswer || typeof question.correctAnswer !== 'string') return false;
-    if (!question.options.every((opt) => typeof opt === 'string' && opt.trim().length > 0)) return false;
-    if (!question.options.includes(question.correctAnswer)) return false;
-    if (typeof question.rowNumber !== 'number') return false;
-    return true;
+    return getQuestionStructureErrors(question).length === 0;
   }
 
   private cleanQuestion(question: Question): Question {
+    // Qo'shimcha maydonlar (masalan, pollStrategy) saqlanib qoladi
     return {
-      question: String(question.question || '').trim(),
-      options: question.options
-        .map((opt) => String(opt || '').trim())
-        .filter((opt) => opt.length > 0),
-      correctAnswer: String(question.correctAnswer || '').trim(),
+      ...question,
+      question: cleanText(question.question),
+      options: question.options.map(cleanText).filter((opt) => opt.length > 0),
+      correctAnswer: cleanText(question.correctAnswer),
+      ...(question.correctAnswers ? { correctAnswers: question.correctAnswers.map(cleanText) } : {}),
       rowNumber: question.rowNumber,
     };
   }
 
-  createSession(requestedCount: number): string {
+  // Tarkib (blueprint) berilsa savollar unga mos tanlanadi, requestedCount esa e'tiborsiz qoladi.
+  // Aks holda selection usuli qo'llanadi (standart - tasodifiy tanlov)
+  createSession(requestedCount: number, blueprint?: SessionBlueprint, selection?: QuestionSelection): string {
     if (this.questions.length === 0) {
       throw new Error('Yaroqli savollar topilmadi');
     }
@@ -480,8 +576,12 @@ export class MultiUserQuizManager {
     }
 
     const sessionId = crypto.randomUUID();
-    const count = Math.min(requestedCount, this.questions.length);
-    const selectedQuestions = shuffleArray([...this.questions]).slice(0, count);
+    const { questions: selectedQuestions, description: selectionDescription } = blueprint
+      ? { questions: selectBlueprintQuestions(this.questions, blueprint), description: "Tarkib bo'yicha" }
+      : selectSessionQuestions(this.questions, requestedCount, selection);
+    if (selectedQuestions.length === 0) {
+      throw new Error('Tanlangan savollar topilmadi');
+    }
 
     const session: QuizSession = {
       sessionId,
@@ -490,12 +590,26 @@ export class MultiUserQuizManager {
       results: new Map(),
       isActive: true,
       startTime: new Date(),
+      selectionDescription,
     };
 
     this.sessions.set(sessionId, session);
     return sessionId;
   }
 
+  // Saqlangan (checkpoint) sessiyani aynan o'sha savollar bilan qayta tiklash
+  restoreSession(sessionId: string, questions: Question[], selectionDescription: string, startTime: Date): void {
+    this.sessions.set(sessionId, {
+      sessionId,
+      questions,
+      participants: new Map(),
+      results: new Map(),
+      isActive: true,
+      startTime,
+      selectionDescription,
+    });
+  }
+
   async addParticipant(sessionId: string, userInfo: UserInfo): Promise<void> {
     const session = this.sessions.get(sessionId);
     if (!session) {
@@ -511,7 +625,16 @@ export class MultiUserQuizManager {
     return this.sessions.get(sessionId) || null;
   }
 
-  setSessionResults(sessionId: string, results: Map<string, Map<number, boolean>>): void {
+  requireSession(sessionId: string): QuizSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('Sessiya topilmadi');
+    }
+    return session;
+  }
+
+  // askedCount - baholanadigan savollar soni (to'xtatilgan testda faqat yuborilganlari)
+  setSessionResults(sessionId: string, results: Map<string, Map<number, number>>, askedCount?: number): void {
     const session = this.sessions.get(sessionId);
     if (!session) return;
 
@@ -519,13 +642,14 @@ export class MultiUserQuizManager {
       const userInfo = session.participants.get(userId);
       if (!userInfo) continue;
 
-      const correct = Array.from(userPollResults.values()).filter((result) => result).length;
-      const total = session.questions.length;
+      // Qisman ball bo'lsa to'g'ri javoblar soni kasr bo'lishi mumkin
+      const correct = Math.round(Array.from(userPollResults.values()).reduce((sum, score) => sum + score, 0) * 100) / 100;
+      const total = askedCount ?? session.questions.length;
       const completionTime = Math.floor((Date.now() - userInfo.startTime.getTime()) / 1000);
 
       const userResult: UserResult = {
         correct,
-        incorrect: total - correct,
+        incorrect: Math.round((total - correct) * 100) / 100,
         total,
         percentage: total > 0 ? (correct / total) * 100 : 0,
         userInfo: { ...userInfo, endTime: new Date(), isActive: false },
@@ -564,11 +688,13 @@ export class MultiUserQuizManager {
     return this.questions.length;
   }
 
-  // Clean up old sessions
+  // Tugagan sessiyalarni tozalash. Faol sessiya o'chirilmaydi: pauzada turgan yoki sahifa yangilangandan
+  // keyin davom ettirilgan test boshlanganiga bir soatdan oshgan bo'lsa ham
   private cleanupOldSessions(): void {
     const now = Date.now();
     for (const [sessionId, session] of this.sessions.entries()) {
-      if (now - session.startTime.getTime() > this.sessionTimeout || !session.isActive) {
+      const finishedAt = session.endTime?.getTime() ?? session.startTime.getTime();
+      if (!session.isActive && now - finishedAt > this.sessionTimeout) {
         this.sessions.delete(sessionId);
         console.log(`Eski sessiya o'chirildi: ${sessionId}`);
       }
@@ -576,513 +702,16 @@ export class MultiUserQuizManager {
   }
 }
 
-const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
-
-const shuffleArray = <T>(array: T[]): T[] => {
-  const newArray = [...array];
-  for (let i = newArray.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
-  }
-  return newArray;
-};
-
-const getUserDisplayName = (userInfo: UserInfo): string => {
-  if (userInfo.firstName && userInfo.lastName) return `${userInfo.firstName} ${userInfo.lastName}`;
-  if (userInfo.firstName) return userInfo.firstName;
-  if (userInfo.username) return `@${userInfo.username}`;
-  return `User${userInfo.userId.slice(-4)}`;
-};
-
-const generateRankingMessage = (rankings: UserResult[]): string => {
-  let message = `
-🏆 <b>TEST NATIJALARI VA REYTING</b>
-📊 <b>Ishtirokchilar reytingi:</b>
-`.trim();
-
-  rankings.forEach((result, index) => {
-    const emoji = index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `${index + 1}.`;
-    const name = getUserDisplayName(result.userInfo);
-    const completionTimeMin = Math.floor(result.completionTime / 60);
-    const completionTimeSec = result.completionTime % 60;
-
-    message += `
-${emoji} <b>${name}</b>
-   💯 ${result.percentage.toFixed(1)}% (${result.correct}/${result.total})
-   ⏱ ${completionTimeMin}:${completionTimeSec.toString().padStart(2, '0')}
-`;
-  });
-
-  const averagePercentage = rankings.length > 0 ? (rankings.reduce((sum, r) => sum + r.percentage, 0) / rankings.length).toFixed(1) : '0';
-  const minCompletionTime = rankings.length > 0 ? Math.min(...rankings.map((r) => r.completionTime)) : 0;
-
-  message += `
-📈 <b>Statistika:</b>
-• Eng yuqori natija: ${rankings[0]?.percentage.toFixed(1) || 0}%
-• O'rtacha natija: ${averagePercentage}%
-• Eng tez tugatgan: ${minCompletionTime}s
-🎉 Barcha ishtirokchilarga tabriklar!
-👨‍💻 @testoakbot | 📚 Bilimingizni oshirishda davom eting!
-`.trim();
-
-  return message;
-};
-
-const shuffleWithCorrectIndex = (
-  options: string[],
-  correctAnswer: string
-): { options: string[]; correctIndex: number } => {
-  const cleanOptions = options
-    .map((opt) => String(opt || '').trim())
-    .filter((opt) => opt.length > 0);
-  const cleanCorrectAnswer = String(correctAnswer).trim();
-
-  if (cleanOptions.length < 2) throw new Error('Kamida 2 ta javob variantlari kerak');
-  if (!cleanOptions.includes(cleanCorrectAnswer)) throw new Error('To\'g\'ri javob variantlar orasida topilmadi');
-
-  const shuffled = shuffleArray(cleanOptions);
-  const correctIndex = shuffled.indexOf(cleanCorrectAnswer);
-
-  return { options: shuffled, correctIndex };
-};
-
-// Bitta foydalanuvchili quiz uchun funksiya
-export const sendQuizToTelegram = async (
-  questions: Question[],
-  config: TelegramConfig,
-  requestedCount: number,
-  intervalSeconds: number = 45
-): Promise<TestResult> => {
-  if (!config.botToken) throw new Error('Bot token majburiy');
-  if (!config.userId) throw new Error('Foydalanuvchi ID majburiy');
-  if (!questions || questions.length === 0) throw new Error('Savollar ro‘yxati bo‘sh');
-  if (requestedCount <= 0 || requestedCount > 100) throw new Error('Savollar soni 1-100 orasida bo‘lishi kerak');
-
-  console.log('Quiz yuborilmoqda:', {
-    userId: config.userId,
-    questionCount: requestedCount,
-    intervalSeconds,
-  });
-
-  const telegramAPI = new TelegramAPI(config.botToken);
-  const quizManager = new MultiUserQuizManager(questions);
-  const pollCollector = new PollResultsCollector(telegramAPI);
-  // Use the intervalSeconds value directly without enforcing a minimum
-  const safeInterval = Math.max(1, Math.min(intervalSeconds, 300));
-
-  try {
-    // Session yaratish
-    const sessionId = quizManager.createSession(requestedCount);
-    const session = quizManager.getSession(sessionId)!;
-
-    // Foydalanuvchini qo‘shish
-    const userInfo = await telegramAPI.getUserInfo(config.userId);
-    await quizManager.addParticipant(sessionId, userInfo);
-
-    // Boshlang‘ich xabar (sozlamalar bilan)
-    await telegramAPI.sendMessage(
-      config.userId,
-      `📝 <b>Test boshlanmoqda!</b>\n\n` +
-      `🔢 Savollar soni: <b>${requestedCount}</b>\n` +
-      `⏱ Har bir savol uchun vaqt: <b>${safeInterval}</b> soniya\n` +
-      `📊 Jami test vaqti: <b>${Math.ceil((requestedCount * safeInterval) / 60)}</b> daqiqa\n\n` +
-      `✅ Tayyor bo‘lsangiz, birinchi savol kelyapti!`
-    );
-    await delay(2000);
-
-    // Savollarni yuborish - har bir savol foydalanuvchi javob bergandan keyin
-    for (let i = 0; i < session.questions.length; i++) {
-      const { question, options, correctAnswer, rowNumber } = session.questions[i];
-      const shuffledData = shuffleWithCorrectIndex(options, correctAnswer);
-
-      const pollId = await telegramAPI.sendPoll(
-        config.userId,
-        `${i + 1}/${session.questions.length}. ${question}`,
-        shuffledData.options,
-        shuffledData.correctIndex,
-        safeInterval,
-        rowNumber
-      );
-      // Foydalanuvchi uchun kutish holatini o'rnatish
-      pollCollector.setUserPollState(config.userId, pollId, i, shuffledData.correctIndex);
-
-      // Har bir savol uchun foydalanuvchi javobini kutish
-      await pollCollector.waitForSinglePollResult(
-        [config.userId],
-        safeInterval
-      );
-      
-      // Natijalarni olish
-      const results = pollCollector.getResults();
-      
-      // Natijalarni saqlash
-      quizManager.setSessionResults(sessionId, results);
-    }
-
-    // Barcha savollar tugadi, yakuniy natijalarni olish
-    // Natijalar har bir savol uchun allaqachon saqlangan
-
-    // Natijalarni tayyorlash
-    const userResult = quizManager.getRankings(sessionId)[0];
-    if (!userResult) throw new Error('Natijalar topilmadi');
-
-    const testResult: TestResult = {
-      correct: userResult.correct,
-      incorrect: userResult.incorrect,
-      total: userResult.total,
-      percentage: userResult.percentage,
-    };
-
-    // Natijalarni yuborish
-    await telegramAPI.sendMessage(
-      config.userId,
-      `🏆 <b>Test natijalari:</b>\n\n` +
-        `✅ To‘g‘ri javoblar: ${testResult.correct} ta\n` +
-        `❌ Noto‘g‘ri javoblar: ${testResult.incorrect} ta\n` +
-        `📊 Jami: ${testResult.total} ta\n` +
-        `📈 Foiz: ${testResult.percentage.toFixed(1)}%\n\n` +
-        `🎉 Test yakunlandi!`
-    );
-
-    return testResult;
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Noma‘lum xato';
-    await telegramAPI.sendMessage(
-      config.userId,
-      `❌ <b>Xato yuz berdi:</b>
-
-${errorMessage}
-
-💡 <i>Iltimos, qaytadan urinib ko‘ring.</i>`
-    );
-    throw new Error(`Quiz yuborishda xato: ${errorMessage}`);
-  }
-};
-
-// Kanalga quiz yuborish uchun funksiya
-export const sendChannelQuizToTelegram = async (
-  questions: Question[],
-  config: TelegramConfig,
-  channelId: string,
-  requestedCount: number,
-  intervalSeconds: number = 45
-): Promise<TestResult> => {
-  if (!config.botToken) throw new Error('Bot token majburiy');
-  if (!channelId) throw new Error('Kanal ID majburiy');
-  if (!questions || questions.length === 0) throw new Error('Savollar ro‘yxati bo‘sh');
-  if (requestedCount <= 0 || requestedCount > 100) throw new Error('Savollar soni 1-100 orasida bo‘lishi kerak');
-
-  console.log('Kanalga quiz yuborilmoqda:', { channelId, questionCount: requestedCount, intervalSeconds });
-
-  const telegramAPI = new TelegramAPI(config.botToken);
-  const quizManager = new MultiUserQuizManager(questions);
-  // Kanallarda foydalanuvchi javoblarini qayta ishlash qiyin, shu sababli oddiy xabar yuboramiz
-
-  try {
-    // Session yaratish
-    const sessionId = quizManager.createSession(requestedCount);
-    const session = quizManager.getSession(sessionId)!;
-
-    // Kanalga boshlang‘ich xabar (sozlamalar bilan)
-    await telegramAPI.sendMessage(
-      channelId,
-      `📝 <b>Test boshlanmoqda!</b>\n\n` +
-      `🔢 Savollar soni: <b>${requestedCount}</b>\n` +
-      `⏱ Har bir savol uchun vaqt: <b>${intervalSeconds}</b> soniya\n` +
-      `📊 Jami test vaqti: <b>${Math.ceil((requestedCount * intervalSeconds) / 60)}</b> daqiqa\n\n` +
-      `✅ Tayyor bo‘lsangiz, birinchi savol kelyapti!`
-    );
-    await delay(2000);
-
-    // Savollarni yuborish - har bir savol kanalga yuboriladi
-    for (let i = 0; i < session.questions.length; i++) {
-      const { question, options, correctAnswer, rowNumber } = session.questions[i];
-      const shuffledData = shuffleWithCorrectIndex(options, correctAnswer);
-
-      await telegramAPI.sendPoll(
-        channelId,
-        `${i + 1}/${session.questions.length}. ${question}`,
-        shuffledData.options,
-        shuffledData.correctIndex,
-        intervalSeconds,
-        rowNumber
-      );
-      
-      // Har bir savol orasida biroz vaqt kutamiz
-      await delay(1000);
-    }
-
-    // Kanalga yakuniy xabar
-    await telegramAPI.sendMessage(
-      channelId,
-      `🏆 <b>Test yakunlandi!</b>\n\n` +
-        `Savollar tugadi. To'g'ri javoblarni o'zingiz tekshiring.`
-    );
-
-    // Oddiy natija qaytaramiz
-    return {
-      correct: 0,
-      incorrect: 0,
-      total: session.questions.length,
-      percentage: 0,
-    };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Noma‘lum xato';
-    await telegramAPI.sendMessage(
-      channelId,
-      `❌ <b>Xato yuz berdi:</b>
-
-${errorMessage}
-
-💡 <i>Iltimos, qaytadan urinib ko‘ring.</i>`
-    );
-    throw new Error(`Kanalga quiz yuborishda xato: ${errorMessage}`);
+// control berilsa kutish pauzada cho'ziladi va to'xtatilganda xato bilan uziladi
+export const delay = async (ms: number, control?: QuizControl): Promise<void> => {
+  if (!control) {
+    return new Promise(resolve => setTimeout(resolve, ms));
   }
+  await control.checkpoint();
+  await control.sleep(ms);
+  await control.checkpoint();
 };
 
-// Guruhga quiz yuborish uchun funksiya
-export const sendGroupQuizToTelegram = async (
-  questions: Question[],
-  config: TelegramConfig,
-  groupId: string,
-  requestedCount: number,
-  intervalSeconds: number = 45
-): Promise<TestResult> => {
-  if (!config.botToken) throw new Error('Bot token majburiy');
-  if (!groupId) throw new Error('Guruh ID majburiy');
-  if (!questions || questions.length === 0) throw new Error('Savollar ro‘yxati bo‘sh');
-  if (requestedCount <= 0 || requestedCount > 100) throw new Error('Savollar soni 1-100 orasida bo‘lishi kerak');
-
-  console.log('Guruhga quiz yuborilmoqda:', { groupId, questionCount: requestedCount, intervalSeconds });
-
-  const telegramAPI = new TelegramAPI(config.botToken);
-  const quizManager = new MultiUserQuizManager(questions);
-  const pollCollector = new PollResultsCollector(telegramAPI);
-  // Use the intervalSeconds value directly without enforcing a minimum
-  const safeInterval = Math.max(1, Math.min(intervalSeconds, 300));
-
-  try {
-    // Session yaratish
-    const sessionId = quizManager.createSession(requestedCount);
-    const session = quizManager.getSession(sessionId)!;
-
-    // Foydalanuvchini qo‘shish
-    const userInfo = await telegramAPI.getUserInfo(groupId);
-    await quizManager.addParticipant(sessionId, userInfo);
-
-    // Guruhga boshlang‘ich xabar (sozlamalar bilan)
-    await telegramAPI.sendMessage(
-      groupId,
-      `📝 <b>Test boshlanmoqda!</b>\n\n` +
-      `🔢 Savollar soni: <b>${requestedCount}</b>\n` +
-      `⏱ Har bir savol uchun vaqt: <b>${safeInterval}</b> soniya\n` +
-      `📊 Jami test vaqti: <b>${Math.ceil((requestedCount * safeInterval) / 60)}</b> daqiqa\n\n` +
-      `✅ Tayyor bo‘lsangiz, birinchi savol kelyapti!`
-    );
-    await delay(2000);
-
-    // Savollarni yuborish - har bir savol foydalanuvchi javob bergandan keyin
-    for (let i = 0; i < session.questions.length; i++) {
-      const { question, options, correctAnswer, rowNumber } = session.questions[i];
-      const shuffledData = shuffleWithCorrectIndex(options, correctAnswer);
-
-      const pollId = await telegramAPI.sendPoll(
-        groupId,
-        `${i + 1}/${session.questions.length}. ${question}`,
-        shuffledData.options,
-        shuffledData.correctIndex,
-        safeInterval,
-        rowNumber
-      );
-      // Foydalanuvchi uchun kutish holatini o'rnatish
-      pollCollector.setUserPollState(groupId, pollId, i, shuffledData.correctIndex);
-
-      // Har bir savol uchun foydalanuvchi javobini kutish
-      await pollCollector.waitForSinglePollResult(
-        [groupId],
-        safeInterval
-      );
-      
-      // Natijalarni olish
-      const results = pollCollector.getResults();
-      
-      // Natijalarni saqlash
-      quizManager.setSessionResults(sessionId, results);
-    }
-
-    // Barcha savollar tugadi, yakuniy natijalarni olish
-    // Natijalar har bir savol uchun allaqachon saqlangan
-
-    // Natijalarni tayyorlash
-    const userResult = quizManager.getRankings(sessionId)[0];
-    if (!userResult) throw new Error('Natijalar topilmadi');
-
-    const testResult: TestResult = {
-      correct: userResult.correct,
-      incorrect: userResult.incorrect,
-      total: userResult.total,
-      percentage: userResult.percentage,
-    };
-
-    // Natijalarni yuborish
-    await telegramAPI.sendMessage(
-      groupId,
-      `🏆 <b>Test natijalari:</b>\n\n` +
-        `✅ To‘g‘ri javoblar: ${testResult.correct} ta\n` +
-        `❌ Noto‘g‘ri javoblar: ${testResult.incorrect} ta\n` +
-        `📊 Jami: ${testResult.total} ta\n` +
-        `📈 Foiz: ${testResult.percentage.toFixed(1)}%\n\n` +
-        `🎉 Test yakunlandi!`
-    );
-
-    return testResult;
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Noma‘lum xato';
-    await telegramAPI.sendMessage(
-      groupId,
-      `❌ <b>Xato yuz berdi:</b>
-
-${errorMessage}
-
-💡 <i>Iltimos, qaytadan urinib ko‘ring.</i>`
-    );
-    throw new Error(`Guruhga quiz yuborishda xato: ${errorMessage}`);
-  }
-};
-
-// Ko‘p foydalanuvchili quiz uchun funksiya
-export const sendMultiUserQuizToTelegram = async (
-  questions: Question[],
-  config: TelegramConfig,
-  userIds: string[],
-  requestedCount: number,
-  intervalSeconds: number = 45
-): Promise<{ sessionId: string; rankings: UserResult[] }> => {
-  if (!config.botToken) throw new Error('Bot token majburiy');
-  if (!userIds || !Array.isArray(userIds) || userIds.length === 0) throw new Error('Foydalanuvchilar ro‘yxati bo‘sh yoki noto‘g‘ri formatda');
-  if (!questions || questions.length === 0) throw new Error('Savollar ro‘yxati bo‘sh');
-  if (requestedCount <= 0 || requestedCount > 100) throw new Error('Savollar soni 1-100 orasida bo‘lishi kerak');
-
-  console.log('Multi-user quiz yuborilmoqda:', { userIds, questionCount: requestedCount, intervalSeconds });
-
-  const telegramAPI = new TelegramAPI(config.botToken);
-  const quizManager = new MultiUserQuizManager(questions);
-  const pollCollector = new PollResultsCollector(telegramAPI);
-  // Use the intervalSeconds value directly without enforcing a minimum
-  const safeInterval = Math.max(1, Math.min(intervalSeconds, 300));
-
-  try {
-    const sessionId = quizManager.createSession(requestedCount);
-    const session = quizManager.getSession(sessionId)!;
-
-    // Foydalanuvchilarni validatsiya qilish va qo‘shish
-    const validUserIds: string[] = [];
-    for (const userId of userIds) {
-      try {
-        const userInfo = await telegramAPI.getUserInfo(userId);
-        await quizManager.addParticipant(sessionId, userInfo);
-        validUserIds.push(userId);
-      } catch (error) {
-        await telegramAPI.sendMessage(
-          config.userId,
-          `⚠️ Foydalanuvchi ${userId} qo‘shilmadi: ${error instanceof Error ? error.message : 'Noma‘lum xato'}`
-        );
-      }
-    }
-
-    if (validUserIds.length === 0) throw new Error('Hech bir foydalanuvchi topilmadi');
-
-    // Boshlang‘ich xabar (sozlamalar bilan)
-    const startMessage = `
-🧑‍💻 <b>Guruh test boshlanadi!</b>
-👥 Ishtirokchilar: <b>${validUserIds.length}</b> kishi
-📝 Savollar soni: <b>${session.questions.length}</b> ta
-⏱ Har savol uchun vaqt: <b>${safeInterval}</b> soniya
-📊 Jami test vaqti: <b>${Math.ceil((session.questions.length * safeInterval) / 60)}</b> daqiqa
-🏆 Oxirida reytingga ko‘ra natijalar e‘lon qilinadi!
-🚀 Tayyor bo‘lsangiz, birinchi savol yuboriladi...
-`.trim();
-
-    await sendMessageToAllUsers(telegramAPI, validUserIds, startMessage);
-    await delay(2000);
-
-    // Savollarni yuborish - har bir savol foydalanuvchilar javob bergandan keyin
-    for (let i = 0; i < session.questions.length; i++) {
-      const { question, options, correctAnswer, rowNumber } = session.questions[i];
-      const shuffledData = shuffleWithCorrectIndex(options, correctAnswer);
-
-      const batchSize = 10; // Batch hajmini oshirish orqali samaradorlikni yaxshilash
-      for (let j = 0; j < validUserIds.length; j += batchSize) {
-        const batch = validUserIds.slice(j, j + batchSize);
-        const pollPromises = batch.map(async (userId) => {
-          try {
-            const pollId = await telegramAPI.sendPoll(
-              userId,
-              `${i + 1}/${session.questions.length}. ${question}`,
-              shuffledData.options,
-              shuffledData.correctIndex,
-              safeInterval,
-              rowNumber
-            );
-            // Har bir foydalanuvchi uchun kutish holatini o'rnatish
-            pollCollector.setUserPollState(userId, pollId, i, shuffledData.correctIndex);
-          } catch (error) {
-            console.warn(`Savol ${i + 1} foydalanuvchi ${userId}ga yuborilmadi:`, error);
-          }
-        });
-        await Promise.allSettled(pollPromises);
-        await delay(1000);
-      }
-
-      // Har bir savol uchun foydalanuvchilar javobini kutish
-      await pollCollector.waitForSinglePollResult(
-        validUserIds,
-        safeInterval
-      );
-      
-      // Natijalarni olish
-      const results = pollCollector.getResults();
-      
-      // Natijalarni saqlash
-      quizManager.setSessionResults(sessionId, results);
-    }
-
-    // Barcha savollar tugadi, yakuniy natijalarni olish
-    // Natijalar har bir savol uchun allaqachon saqlangan
-
-    // Reytingni yuborish
-    const rankings = quizManager.getRankings(sessionId);
-    await sendMessageToAllUsers(telegramAPI, validUserIds, generateRankingMessage(rankings));
-
-    return { sessionId, rankings };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Noma‘lum xato';
-    await sendMessageToAllUsers(
-      telegramAPI,
-      userIds,
-      `❌ <b>Xato yuz berdi:</b>
-
-${errorMessage}
-
-💡 <i>Iltimos, qaytadan urinib ko‘ring.</i>`
-    );
-    throw new Error(`Multi-user quiz yuborishda xato: ${errorMessage}`);
-  }
-};
-
-async function sendMessageToAllUsers(api: TelegramAPI, userIds: string[], message: string): Promise<void> {
-  const batchSize = 10;
-  for (let i = 0; i < userIds.length; i += batchSize) {
-    const batch = userIds.slice(i, i + batchSize);
-    await Promise.allSettled(
-      batch.map(async (userId) => {
-        try {
-          await api.sendMessage(userId, message);
-        } catch (error) {
-          console.warn(`Foydalanuvchi ${userId}ga xabar yuborilmadi:`, error);
-        }
-      })
-    );
-    await delay(1000);
-  }
-}
+// Foydalanuvchi matnini HTML xabar ichiga xavfsiz joylash
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
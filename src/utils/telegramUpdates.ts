@@ -0,0 +1,203 @@
+// Telegram yangilanishlarini (getUpdates) markazlashgan holda olish.
+// Har bir bot tokeni uchun bitta dispetcher offset'ni boshqaradi va yangilanishlarni obunachilarga tarqatadi -
+// bir vaqtda ishlayotgan testlar bir-birining javoblarini "o'g'irlamaydi", eski javoblar qayta o'qilmaydi.
+
+export interface TelegramUser {
+  id: number;
+  is_bot?: boolean;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+}
+
+export interface TelegramChat {
+  id: number;
+  type: string;
+  title?: string;
+  username?: string;
+  first_name?: string;
+  last_name?: string;
+}
+
+export interface TelegramPollAnswer {
+  poll_id: string;
+  user: TelegramUser;
+  option_ids: number[];
+}
+
+export interface TelegramPoll {
+  id: string;
+  question: string;
+  options: Array<{ text: string; voter_count: number }>;
+  total_voter_count: number;
+  is_closed: boolean;
+}
+
+export interface TelegramMessage {
+  message_id: number;
+  chat: TelegramChat;
+  from?: TelegramUser;
+  date: number;
+  text?: string;
+}
+
+export interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  data?: string;
+  message?: TelegramMessage;
+}
+
+export interface TelegramUpdate {
+  update_id: number;
+  poll_answer?: TelegramPollAnswer;
+  poll?: TelegramPoll;
+  message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+}
+
+interface TelegramUpdatePayloads {
+  poll_answer: TelegramPollAnswer;
+  poll: TelegramPoll;
+  message: TelegramMessage;
+  callback_query: TelegramCallbackQuery;
+}
+
+export type TelegramUpdateType = keyof TelegramUpdatePayloads;
+
+export type TelegramUpdateHandler<K extends TelegramUpdateType> = (
+  payload: TelegramUpdatePayloads[K],
+  update: TelegramUpdate
+) => void;
+
+export type FetchUpdates = (
+  offset: number | undefined,
+  allowedUpdates: TelegramUpdateType[],
+  timeoutSeconds: number,
+  signal: AbortSignal
+) => Promise<TelegramUpdate[]>;
+
+export const ALLOWED_UPDATE_TYPES: TelegramUpdateType[] = ['poll_answer', 'poll', 'message', 'callback_query'];
+export const LONG_POLL_TIMEOUT_SECONDS = 30;
+const RETRY_DELAY_MS = 2000;
+
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+export class TelegramUpdateDispatcher {
+  private offset: number | undefined = undefined;
+  private isPolling = false;
+  private pollAbortController: AbortController | null = null;
+  private readonly listeners: Map<TelegramUpdateType, Set<(update: TelegramUpdate) => void>> = new Map();
+
+  constructor(private fetchUpdates: FetchUpdates) {}
+
+  // Keyingi getUpdates so'rovi oxirgi murojaat qilgan TelegramAPI orqali yuboriladi
+  setFetchUpdates(fetchUpdates: FetchUpdates): void {
+    this.fetchUpdates = fetchUpdates;
+  }
+
+  // Obuna bo'lish - qaytarilgan funksiya obunani bekor qiladi.
+  // Birinchi obunachi paydo bo'lganda long-polling boshlanadi, oxirgisi ketganda to'xtaydi
+  subscribe<K extends TelegramUpdateType>(type: K, handler: TelegramUpdateHandler<K>): () => void {
+    const listener = (update: TelegramUpdate) => {
+      const payload = update[type] as TelegramUpdatePayloads[K] | undefined;
+      if (payload) {
+        handler(payload, update);
+      }
+    };
+
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set());
+    }
+    this.listeners.get(type)!.add(listener);
+    this.startPolling();
+
+    return () => {
+      this.listeners.get(type)?.delete(listener);
+      // Oxirgi obunachi ketdi - kutilayotgan long-poll so'rovi darhol uziladi
+      if (!this.hasListeners()) {
+        this.pollAbortController?.abort();
+      }
+    };
+  }
+
+  // Oxirgi qayta ishlangan yangilanishdan keyingi offset (checkpoint uchun)
+  get currentOffset(): number | undefined {
+    return this.offset;
+  }
+
+  // Saqlangan offset'ni tiklash - offset faqat oldinga suriladi
+  restoreOffset(offset: number | undefined): void {
+    if (offset !== undefined && (this.offset === undefined || offset > this.offset)) {
+      this.offset = offset;
+    }
+  }
+
+  private hasListeners(): boolean {
+    return Array.from(this.listeners.values()).some((set) => set.size > 0);
+  }
+
+  private startPolling(): void {
+    if (this.isPolling) return;
+    this.isPolling = true;
+    void this.pollLoop();
+  }
+
+  private async pollLoop(): Promise<void> {
+    while (this.hasListeners()) {
+      const abortController = new AbortController();
+      this.pollAbortController = abortController;
+      try {
+        const updates = await this.fetchUpdates(
+          this.offset,
+          ALLOWED_UPDATE_TYPES,
+          LONG_POLL_TIMEOUT_SECONDS,
+          abortController.signal
+        );
+        for (const update of updates) {
+          // Hech kim obuna bo'lmasa offset surilmaydi - yangilanish keyingi obunachiga qayta o'qiladi.
+          // Obunachi bo'lsa offset har qanday yangilanish uchun suriladi (turiga obunachi bo'lmasa ham)
+          if (abortController.signal.aborted || !this.hasListeners()) break;
+          this.offset = update.update_id + 1;
+          this.dispatch(update);
+        }
+      } catch (error) {
+        // Obunachilar ketgani uchun uzilgan so'rov xato emas
+        if (!abortController.signal.aborted) {
+          console.warn('getUpdates xatosi:', error);
+          await delay(RETRY_DELAY_MS);
+        }
+      } finally {
+        this.pollAbortController = null;
+      }
+    }
+    this.isPolling = false;
+  }
+
+  private dispatch(update: TelegramUpdate): void {
+    for (const type of ALLOWED_UPDATE_TYPES) {
+      if (!update[type]) continue;
+      for (const listener of Array.from(this.listeners.get(type) || [])) {
+        try {
+          listener(update);
+        } catch (error) {
+          console.error(`${type} yangilanishini qayta ishlashda xato:`, error);
+        }
+      }
+    }
+  }
+}
+
+const dispatchers: Map<string, TelegramUpdateDispatcher> = new Map();
+
+// Bot tokeni bo'yicha yagona dispetcher (so'rovlar oxirgi chaqiruvdagi fetchUpdates bilan yuboriladi)
+export const getUpdateDispatcher = (botToken: string, fetchUpdates: FetchUpdates): TelegramUpdateDispatcher => {
+  let dispatcher = dispatchers.get(botToken);
+  if (!dispatcher) {
+    dispatcher = new TelegramUpdateDispatcher(fetchUpdates);
+    dispatchers.set(botToken, dispatcher);
+  } else {
+    dispatcher.setFetchUpdates(fetchUpdates);
+  }
+  return dispatcher;
+};
@@ -0,0 +1,34 @@
+// Matnli fayllarni o'qish va kodirovkasini aniqlash.
+// O'zbek/rus test bazalari ko'pincha UTF-8 yoki Windows-1251 da saqlanadi.
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1251';
+
+export interface DecodedText {
+  text: string;
+  encoding: TextEncoding;
+}
+
+export const detectEncoding = (bytes: Uint8Array): TextEncoding => {
+  // BOM (Byte Order Mark) bo'yicha aniqlash
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  // BOM bo'lmasa: UTF-8 sifatida xatosiz o'qilsa - UTF-8, aks holda Windows-1251
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1251';
+  }
+};
+
+export const decodeText = (buffer: ArrayBuffer): DecodedText => {
+  const bytes = new Uint8Array(buffer);
+  const encoding = detectEncoding(bytes);
+  // TextDecoder BOM ni o'zi olib tashlaydi
+  const text = new TextDecoder(encoding).decode(bytes);
+  return { text, encoding };
+};
+
+export const readTextFile = async (file: File): Promise<DecodedText> => decodeText(await file.arrayBuffer());
@@ -0,0 +1,34 @@
+// Matnni solishtirish uchun normallashtirish. Banklarda "to'g'ri" so'zi ʻ ‘ ' ’ bilan aralash yoziladi,
+// nusxa ko'chirilgan matnda esa NBSP va ko'rinmas (zero-width) belgilar uchraydi.
+// Ko'rsatish uchun asl matn saqlanadi - faqat ko'rinmas belgilar olib tashlanadi.
+
+// Nol kenglikdagi belgilar: ZWSP, ZWNJ, ZWJ, WORD JOINER, BOM, soft hyphen
+const INVISIBLE_CHARS = /[\u200B-\u200D\u2060\uFEFF\u00AD]/g;
+// Bo'linmas va boshqa maxsus bo'shliqlar
+const SPECIAL_SPACES = /[\u00A0\u1680\u2000-\u200A\u202F\u205F\u3000]/g;
+// O'zbek lotin yozuvidagi apostrof turlari: ʻ ʼ ‘ ’ ` ´ ′ ʹ
+const APOSTROPHE_VARIANTS = /[\u02BB\u02BC\u2018\u2019`\u00B4\u2032\u02B9]/g;
+
+// Parser uchun: ko'rinmas belgilar olib tashlanadi, bo'shliqlar oddiy probelga aylanadi,
+// apostroflar esa yozilganicha qoladi
+export const cleanText = (text: string): string =>
+  String(text ?? '')
+    .normalize('NFC')
+    .replace(INVISIBLE_CHARS, '')
+    .replace(SPECIAL_SPACES, ' ')
+    .trim();
+
+// Barcha apostrof turlarini oddiy ' ga keltirish
+export const normalizeApostrophes = (text: string): string => text.replace(APOSTROPHE_VARIANTS, "'");
+
+// Solishtirish kaliti: apostroflar bitta ko'rinishga keltiriladi, ketma-ket bo'shliqlar birlashtiriladi
+export const normalizeForMatch = (text: string): string =>
+  normalizeApostrophes(cleanText(text)).replace(/\s+/g, ' ');
+
+export const textsMatch = (a: string, b: string): boolean => normalizeForMatch(a) === normalizeForMatch(b);
+
+// Ro'yxatdagi mos keladigan birinchi elementning indeksi (topilmasa -1)
+export const findMatchingIndex = (items: string[], text: string): number => {
+  const key = normalizeForMatch(text);
+  return items.findIndex((item) => normalizeForMatch(item) === key);
+};
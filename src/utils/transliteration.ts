@@ -0,0 +1,213 @@
+import { Question, QuestionScript } from '../types';
+import { normalizeApostrophes } from './textNormalization';
+
+// O'zbek lotin ⇄ kirill yozuvi (1995-yilgi rasmiy moslik qoidalari bo'yicha).
+// Kod va formulalar (`<?php`, `console.log()`, `H2O`, ...) hamda qisqartmalar o'zgartirilmaydi.
+// Kod parchasi butunligicha himoyalanadi, ichidagi oddiy so'zlar ham o'girilmaydi:
+//   "PHP kodi: <?php echo 'salom'; ?>" -> "PHP коди: <?php echo 'salom'; ?>"
+// Operator bor qavs ichidagi ifoda ham bitta kod parchasi:
+//   "Shart: if (a<b && c>d)" -> "Шарт: иф (a<b && c>d)"
+
+export const QUESTION_SCRIPT_LABELS: Record<QuestionScript, string> = {
+  original: 'Fayldagidek',
+  cyrillic: 'Kirill (Ўзбекча)',
+  latin: "Lotin (O'zbekcha)",
+};
+
+const OKINA = '\u02BB'; // oʻ, gʻ
+const TUTUQ = '\u02BC'; // tutuq belgisi: maʼno
+
+const LATIN_TO_CYRILLIC: Record<string, string> = {
+  a: 'а', b: 'б', c: 'ц', d: 'д', f: 'ф', g: 'г', h: 'ҳ', i: 'и', j: 'ж', k: 'к', l: 'л', m: 'м', n: 'н',
+  o: 'о', p: 'п', q: 'қ', r: 'р', s: 'с', t: 'т', u: 'у', v: 'в', x: 'х', y: 'й', z: 'з',
+};
+
+const LATIN_DIGRAPHS: Record<string, string> = {
+  "o'": 'ў', "g'": 'ғ', sh: 'ш', ch: 'ч', yo: 'ё', yu: 'ю', ya: 'я', ye: 'е',
+};
+
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', ғ: `g${OKINA}`, д: 'd', ё: 'yo', ж: 'j', з: 'z', и: 'i', й: 'y', к: 'k',
+  қ: 'q', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ў: `o${OKINA}`, ф: 'f',
+  х: 'x', ҳ: 'h', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'sh', ъ: TUTUQ, ы: 'i', ь: '', э: 'e', ю: 'yu', я: 'ya',
+};
+
+const LATIN_VOWELS = 'aeiou';
+const CYRILLIC_VOWELS = 'аеёиоуўэюяы';
+
+// Butunligicha o'zgarmaydigan qismlar: ```blok``` va `inline` kod, <code>/<pre> ichidagi kod,
+// <?php ... ?> (yopilmagan bo'lsa matn oxirigacha) va HTML teglari (<div class="a">)
+const PROTECTED_REGION =
+  /(```[\s\S]*?```|`[^`]*`|<(code|pre)\b[^>]*>[\s\S]*?<\/\2>|<\?[\s\S]*?(?:\?>|$)|<\/?[A-Za-z][^<>]*>)/i;
+
+// Kodga o'xshash so'zlar: teglar, operatorlar, funksiya chaqiruvi, fayl nomi, harf va raqam aralashmasi
+const CODE_TOKEN = /[<>{}[\]=$#;\\|@_~^*/+]|\w\(|\w\.\w|::|[A-Za-z]\d|\d[A-Za-z]/;
+// Qavs ichidagi ifodani kod deb hisoblash uchun operatorlar
+const CODE_OPERATOR = /[<>{}[\]=$#;\\|&^*/+]/;
+// Lotin yozuvidagi qisqartmalar (PHP, HTML, SQL)
+const ACRONYM = /^[^A-Za-z]*[A-Z]{2,4}[^A-Za-z]*$/;
+// O'zbek lotin alifbosida yo'q harflar: bunday so'z chet tilidagi nom deb qoldiriladi
+const FOREIGN_LATIN = /w|c(?!h)/i;
+
+const isLetter = (char: string | undefined): boolean => !!char && char.toLowerCase() !== char.toUpperCase();
+
+const matchCase = (source: string, target: string): string =>
+  source !== source.toLowerCase() ? target.toUpperCase() : target;
+
+const latinWordToCyrillic = (word: string): string => {
+  const text = normalizeApostrophes(word);
+  let result = '';
+  let prev = ''; // oldingi lotin harfi (so'z boshida bo'sh)
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const lower = char.toLowerCase();
+    const pair = (lower + (text[i + 1] || '')).toLowerCase();
+
+    if (char === "'") {
+      // s'h -> сҳ (sh emasligini ko'rsatadi); harflar orasidagi apostrof -> ъ
+      if (prev === 's' && text[i + 1]?.toLowerCase() === 'h') continue;
+      result += isLetter(text[i - 1]) && isLetter(text[i + 1]) ? 'ъ' : char;
+      continue;
+    }
+
+    // yoʻl -> йўл: "yo" dan keyin apostrof kelsa y alohida o'qiladi
+    if (LATIN_DIGRAPHS[pair] && !(lower === 'y' && text[i + 2] === "'")) {
+      result += matchCase(char, LATIN_DIGRAPHS[pair]);
+      prev = pair === "o'" ? 'o' : pair[1];
+      i++;
+      continue;
+    }
+
+    if (lower === 'e') {
+      // So'z boshida va unlidan keyin e -> э
+      result += matchCase(char, !prev || LATIN_VOWELS.includes(prev) ? 'э' : 'е');
+      prev = lower;
+      continue;
+    }
+
+    if (LATIN_TO_CYRILLIC[lower]) {
+      result += matchCase(char, LATIN_TO_CYRILLIC[lower]);
+      prev = lower;
+      continue;
+    }
+
+    result += char;
+    prev = isLetter(char) ? lower : '';
+  }
+
+  return result;
+};
+
+const cyrillicWordToLatin = (word: string): string => {
+  let result = '';
+
+  for (let i = 0; i < word.length; i++) {
+    const char = word[i];
+    const lower = char.toLowerCase();
+    const prevChar = word[i - 1];
+    const nextChar = word[i + 1];
+
+    let latin: string | undefined;
+    if (lower === 'е') {
+      // So'z boshida, unlidan yoki ъ/ь dan keyin е -> ye
+      const prevLower = prevChar?.toLowerCase() || '';
+      latin = !isLetter(prevChar) || CYRILLIC_VOWELS.includes(prevLower) || 'ъь'.includes(prevLower) ? 'ye' : 'e';
+    } else if (lower === 'с' && nextChar?.toLowerCase() === 'ҳ') {
+      latin = `s${TUTUQ}`;
+    } else {
+      latin = CYRILLIC_TO_LATIN[lower];
+    }
+
+    if (latin === undefined) {
+      result += char;
+      continue;
+    }
+
+    if (char !== lower && latin.length > 0) {
+      // Ш -> SH (butun so'z katta harfda bo'lsa) yoki Sh
+      const allCaps =
+        (isLetter(nextChar) && nextChar !== nextChar.toLowerCase()) ||
+        (isLetter(prevChar) && prevChar !== prevChar.toLowerCase());
+      latin = allCaps ? latin.toUpperCase() : latin[0].toUpperCase() + latin.slice(1);
+    }
+    result += latin;
+  }
+
+  return result;
+};
+
+const isProtectedToken = (token: string, script: Exclude<QuestionScript, 'original'>): boolean =>
+  CODE_TOKEN.test(token) || (script === 'cyrillic' && (ACRONYM.test(token) || FOREIGN_LATIN.test(token)));
+
+const convertSegment = (segment: string, script: Exclude<QuestionScript, 'original'>): string => {
+  const convertWord = script === 'cyrillic' ? latinWordToCyrillic : cyrillicWordToLatin;
+  return segment
+    .split(/(\s+)/)
+    .map((token) => (/^\s*$/.test(token) || isProtectedToken(token, script) ? token : convertWord(token)))
+    .join('');
+};
+
+// Ochuvchi qavsga mos yopuvchi qavs indeksi (ichma-ich qavslar hisobga olinadi), topilmasa -1
+const findClosingParen = (text: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    if (text[i] === ')' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// Operator bor qavs ichidagi ifoda, undan oldin bo'shliqsiz yozilgan funksiya nomi bilan: "(a<b && c>d)", "f(a+b)"
+const findParenthesizedCode = (text: string): { start: number; end: number } | null => {
+  for (let open = text.indexOf('('); open !== -1; open = text.indexOf('(', open + 1)) {
+    const close = findClosingParen(text, open);
+    if (close === -1) return null;
+    if (CODE_OPERATOR.test(text.slice(open, close + 1))) {
+      return { start: text.slice(0, open).search(/\S*$/), end: close + 1 };
+    }
+  }
+  return null;
+};
+
+// Eng oldin boshlanadigan himoyalangan qism. "a<b && c>d" dagi "<b && c>" teg emas,
+// shuning uchun qavs ichidagi ifoda undan oldin boshlansa, ifoda butunligicha olinadi
+const findProtectedRegion = (text: string): { start: number; end: number } | null => {
+  const match = PROTECTED_REGION.exec(text);
+  const region = match ? { start: match.index, end: match.index + match[0].length } : null;
+  const parenthesized = findParenthesizedCode(text);
+  if (!parenthesized) return region;
+  return !region || parenthesized.start < region.start ? parenthesized : region;
+};
+
+// Kod parchalari (PROTECTED_REGION, operatorli qavs ichidagi ifodalar) va kodga o'xshash so'zlar o'zgarmaydi
+export const transliterateText = (text: string, script: QuestionScript): string => {
+  if (script === 'original' || !text) return text;
+
+  let result = '';
+  let rest = text;
+  for (let region = findProtectedRegion(rest); region; region = findProtectedRegion(rest)) {
+    result += convertSegment(rest.slice(0, region.start), script) + rest.slice(region.start, region.end);
+    rest = rest.slice(region.end);
+  }
+  return result + convertSegment(rest, script);
+};
+
+// Savol, variantlar, to'g'ri javob(lar) va izoh o'giriladi. Rasm nomi, manba hamda mavzu va teglar
+// o'zgarmaydi - ular sessiya tarkibini (blueprint) tanlashda asl ko'rinishida solishtiriladi
+export const transliterateQuestion = (question: Question, script: QuestionScript): Question => {
+  if (script === 'original') return question;
+  const convert = (text: string) => transliterateText(text, script);
+
+  return {
+    ...question,
+    question: convert(question.question),
+    correctAnswer: convert(question.correctAnswer),
+    options: question.options.map(convert),
+    ...(question.correctAnswers ? { correctAnswers: question.correctAnswers.map(convert) } : {}),
+    ...(question.explanation ? { explanation: convert(question.explanation) } : {}),
+  };
+};
+
+export const transliterateQuestions = (questions: Question[], script: QuestionScript): Question[] =>
+  script === 'original' ? questions : questions.map((question) => transliterateQuestion(question, script));
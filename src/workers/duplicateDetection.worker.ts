@@ -0,0 +1,14 @@
+import { findDuplicateIndexClusters } from '../utils/duplicateDetection';
+import { DuplicateWorkerRequest, DuplicateWorkerResponse } from '../utils/duplicateWorker';
+
+// Takroriy savollar klasterlarini asosiy oqimdan tashqarida qidirish
+const post = (message: DuplicateWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<DuplicateWorkerRequest>) => {
+  const { questions, threshold } = event.data;
+  try {
+    post({ type: 'result', clusters: findDuplicateIndexClusters(questions, threshold) });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : "Takroriy savollarni qidirishda xato" });
+  }
+};
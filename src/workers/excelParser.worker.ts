@@ -0,0 +1,15 @@
+import { parseExcelWorkbook } from '../utils/excelParser';
+import { ExcelWorkerRequest, ExcelWorkerResponse } from '../utils/excelWorker';
+
+// Excel faylini asosiy oqimdan tashqarida o'qish: jarayon va natija postMessage orqali qaytariladi
+const post = (message: ExcelWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<ExcelWorkerRequest>) => {
+  const { buffer, fileName, savedMappings } = event.data;
+  try {
+    const result = parseExcelWorkbook(buffer, fileName, savedMappings, (progress) => post({ type: 'progress', progress }));
+    post({ type: 'result', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : "Excel faylini o'qishda xato" });
+  }
+};